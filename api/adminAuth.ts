@@ -0,0 +1,22 @@
+import { timingSafeEqual } from 'node:crypto';
+
+// Reviewer/admin endpoints authenticate with
+// `Authorization: Bearer <REVIEW_API_TOKEN>` and are disabled when no token
+// is configured.
+
+const adminToken = process.env.REVIEW_API_TOKEN;
+
+export function isAdminApiEnabled(): boolean {
+  return Boolean(adminToken);
+}
+
+export function isAuthorized(req: { headers?: Record<string, unknown> }): boolean {
+  const header = req.headers?.authorization;
+  if (!adminToken || typeof header !== 'string' || !header.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const provided = Buffer.from(header.slice('Bearer '.length));
+  const expected = Buffer.from(adminToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
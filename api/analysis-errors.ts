@@ -0,0 +1,70 @@
+import { DatabaseNotWritableError, fetchAnalysisErrorsFromDatabase, retryFailedChunksInDatabase } from './databaseService.js';
+import { isAdminApiEnabled, isAuthorized } from './adminAuth.js';
+import { availableScoringProviders, createScoringProvider, defaultScoringProvider } from '../src/scoring/providers.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+function isIdList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((id) => Number.isInteger(id) && id > 0);
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method && req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  if (!isAdminApiEnabled()) {
+    res.status(503).json({ error: 'Analysis error admin is disabled. Set REVIEW_API_TOKEN to enable it.' });
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const body = (typeof req.body === 'string' ? JSON.parse(req.body) : req.body) ?? {};
+      const responseIds = body.responseIds ?? null;
+      if (responseIds !== null && !isIdList(responseIds)) {
+        res.status(400).json({ error: '"responseIds" must be an array of positive integers' });
+        return;
+      }
+
+      const providerName = typeof body.provider === 'string' ? body.provider : defaultScoringProvider();
+      if (providerName === null) {
+        res.status(400).json({ error: 'No scoring provider is configured. Set SCORING_PROVIDER to a registered provider.' });
+        return;
+      }
+      if (!availableScoringProviders().includes(providerName)) {
+        res.status(400).json({ error: `Unknown scoring provider "${providerName}"` });
+        return;
+      }
+
+      const partyId = typeof body.partyId === 'string' && body.partyId !== '' ? body.partyId : null;
+      const result = await retryFailedChunksInDatabase(createScoringProvider(providerName), responseIds, partyId);
+      res.status(200).json(result);
+      return;
+    }
+
+    const partyId = (req.query?.partyId as string | undefined) || null;
+    const errors = await fetchAnalysisErrorsFromDatabase(partyId);
+    res.status(200).json({ errors, providers: availableScoringProviders(), defaultProvider: defaultScoringProvider() });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      res.status(400).json({ error: 'Request body must be valid JSON' });
+      return;
+    }
+    if (error instanceof DatabaseNotWritableError) {
+      res.status(503).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error in /api/analysis-errors:', error);
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
@@ -1,14 +1,31 @@
 import initSqlJs, { Database } from 'sql.js';
-import { promises as fs } from 'node:fs';
+import { constants as fsConstants, promises as fs } from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { Country, PoliticalParty, Ideology, PolicyAnalysis } from '../src/types/political';
-
-type PgPool = {
-  query: (text: string, params?: unknown[]) => Promise<{ rows: any[] }>;
-};
+import {
+  AnalysisError,
+  Country,
+  DataQualityReport,
+  IdeologyDefinition,
+  PoliticalParty,
+  PolicyAnalysis,
+  PolicyReviewInput,
+  PositionSource,
+  PartyPositionHistory,
+  QuizQuestion,
+  ReviewStatus,
+  ReviewablePolicy
+} from '../src/types/political';
+import { DEFAULT_POSITION_SOURCE } from '../src/lib/partyPositions.js';
+import { PartyRepository } from '../src/data/partyRepository.js';
+import { PgPool, createPostgresDriver, createSqlJsDriver } from '../src/data/sqlDrivers.js';
+import { assertSchemaUpToDate } from '../src/data/migrations.js';
+import { RetryFailedChunksResult, retryFailedChunks } from '../src/scoring/retry.js';
+import { DataQualityOptions, buildDataQualityReport } from '../src/lib/dataQuality.js';
+import type { PolicyScoringProvider } from '../src/scoring/types.js';
 
 let sqliteDb: Database | null = null;
+let sqlitePathInUse: string | null = null;
 let sqliteInitPromise: Promise<Database> | null = null;
 let pgPool: PgPool | null = null;
 let pgInitPromise: Promise<PgPool> | null = null;
@@ -16,101 +33,8 @@ let pgInitPromise: Promise<PgPool> | null = null;
 const databaseUrl = typeof process !== 'undefined' ? process.env?.DATABASE_URL : undefined;
 const usePostgres = Boolean(databaseUrl);
 
-const COUNTRY_FLAGS: Record<string, string> = {
-  'Czech Republic': '🇨🇿',
-  'Slovakia': '🇸🇰',
-  'Poland': '🇵🇱',
-  'Germany': '🇩🇪',
-  'Austria': '🇦🇹',
-  'Hungary': '🇭🇺',
-  'United States': '🇺🇸',
-  'United Kingdom': '🇬🇧',
-  'France': '🇫🇷',
-};
-
-function toNullableNumber(value: unknown): number | null {
-  if (value === null || value === undefined) {
-    return null;
-  }
-
-  if (typeof value === 'number') {
-    return Number.isNaN(value) ? null : value;
-  }
-
-  const parsed = Number(value);
-  return Number.isNaN(parsed) ? null : parsed;
-}
-
-function determineIdeology(leftRight: number, authLib: number): Ideology {
-  if (Math.abs(leftRight) < 1 && Math.abs(authLib) < 1) {
-    return 'centrist';
-  }
-
-  if (leftRight < -2 && authLib > 2) {
-    return 'liberal';
-  }
-
-  if (leftRight > 2 && authLib < -2) {
-    return 'conservative';
-  }
-
-  if (leftRight > 2 && authLib > 2) {
-    return 'libertarian';
-  }
-
-  if (leftRight < -2 && authLib < -2) {
-    return 'authoritarian';
-  }
-
-  if (leftRight < -3) {
-    return 'socialist';
-  }
-
-  if (authLib > 3) {
-    return 'green';
-  }
-
-  return 'centrist';
-}
-
-interface DBParty {
-  id: string;
-  name: string;
-  type: string;
-  country: string;
-  founded: number | null;
-  website: string | null;
-  econ_freedom: number | null;
-  personal_freedom: number | null;
-}
-
-interface DBLLMResponse {
-  party_id: string;
-  response: string;
-}
-
-function transformDBPartyToAppParty(dbParty: DBParty): PoliticalParty {
-  const econFreedom = dbParty.econ_freedom ?? 0;
-  const personalFreedom = dbParty.personal_freedom ?? 0;
-  const ideology = determineIdeology(econFreedom, personalFreedom);
-
-  const nameWords = dbParty.name.split(' ');
-  const shortName = nameWords.length > 2 ? nameWords[0] : nameWords.slice(0, 2).join(' ');
-
-  return {
-    id: dbParty.id,
-    name: dbParty.name,
-    shortName,
-    econFreedom,
-    personalFreedom,
-    ideology,
-    description: `${dbParty.name} is a ${dbParty.type} in ${dbParty.country.toUpperCase()}.`,
-    website: dbParty.website ?? undefined,
-    logo: undefined,
-    founded: dbParty.founded ?? undefined,
-    support: undefined
-  };
-}
+// When set, only approved or edited policies are published or move positions
+const reviewedOnly = typeof process !== 'undefined' && process.env?.PUBLISH_REVIEWED_POLICIES_ONLY === 'true';
 
 function resolvePgSslConfig(url: string): boolean | { rejectUnauthorized: boolean } {
   return /localhost|127\.0\.0\.1/i.test(url) ? false : { rejectUnauthorized: false };
@@ -169,6 +93,20 @@ async function createPgPool(connectionString: string): Promise<PgPool> {
   return pool;
 }
 
+// Prefers the Neon HTTP driver; `transactions` skips it for the pg pool,
+// which can check out a connection to run BEGIN/COMMIT on
+export async function connectPostgres(connectionString: string, { transactions = false } = {}): Promise<PgPool> {
+  if (!transactions) {
+    try {
+      return await createNeonQueryAdapter(connectionString);
+    } catch (neonError) {
+      console.warn('Falling back to pg client after Neon driver initialization failed:', neonError);
+    }
+  }
+
+  return createPgPool(connectionString);
+}
+
 async function ensurePostgres(): Promise<PgPool> {
   if (!usePostgres) {
     throw new Error('Postgres is not enabled');
@@ -184,15 +122,8 @@ async function ensurePostgres(): Promise<PgPool> {
 
   if (!pgInitPromise) {
     pgInitPromise = (async () => {
-      try {
-        const pool = await createNeonQueryAdapter(databaseUrl);
-        pgPool = pool;
-        return pool;
-      } catch (neonError) {
-        console.warn('Falling back to pg client after Neon driver initialization failed:', neonError);
-      }
-
-      const pool = await createPgPool(databaseUrl);
+      const pool = await connectPostgres(databaseUrl);
+      await assertSchemaUpToDate(createPostgresDriver(pool));
       pgPool = pool;
       return pool;
     })();
@@ -210,7 +141,7 @@ async function ensurePostgres(): Promise<PgPool> {
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-async function resolveSqlitePath(): Promise<string> {
+export async function resolveSqlitePath(): Promise<string> {
   const candidates = [
     process.env.SQLITE_DB_PATH,
     path.join(process.cwd(), 'data', 'data.db'),
@@ -231,6 +162,15 @@ async function resolveSqlitePath(): Promise<string> {
   throw new Error('Unable to locate local SQLite database file. Provide SQLITE_DB_PATH or place data.db in /data or /public.');
 }
 
+export async function openSqliteFile(sqlitePath: string): Promise<Database> {
+  const SQL = await initSqlJs({
+    locateFile: (file) => path.join(process.cwd(), 'node_modules', 'sql.js', 'dist', file)
+  });
+
+  const buffer = await fs.readFile(sqlitePath);
+  return new SQL.Database(new Uint8Array(buffer));
+}
+
 async function ensureSqlite(): Promise<Database> {
   if (sqliteDb) {
     return sqliteDb;
@@ -238,13 +178,11 @@ async function ensureSqlite(): Promise<Database> {
 
   if (!sqliteInitPromise) {
     sqliteInitPromise = (async () => {
-      const SQL = await initSqlJs({
-        locateFile: (file) => path.join(process.cwd(), 'node_modules', 'sql.js', 'dist', file)
-      });
-
       const sqlitePath = await resolveSqlitePath();
-      const buffer = await fs.readFile(sqlitePath);
-      sqliteDb = new SQL.Database(new Uint8Array(buffer));
+      const db = await openSqliteFile(sqlitePath);
+      await assertSchemaUpToDate(createSqlJsDriver(db));
+      sqliteDb = db;
+      sqlitePathInUse = sqlitePath;
       console.log(`SQLite database initialized from ${sqlitePath}`);
       return sqliteDb;
     })();
@@ -259,250 +197,181 @@ async function ensureSqlite(): Promise<Database> {
   }
 }
 
-export async function fetchCountriesFromDatabase(): Promise<Country[]> {
+async function getRepository(): Promise<PartyRepository> {
   if (usePostgres) {
-    try {
-      const pool = await ensurePostgres();
-      const { rows } = await pool.query(`
-        SELECT DISTINCT country
-        FROM parties
-        ORDER BY country
-      `);
-
-      if (!rows.length) {
-        return [];
-      }
-
-      return rows
-        .map((row) => row.country as string | null)
-        .filter((name): name is string => typeof name === 'string' && name.length > 0)
-        .map((name) => ({
-          code: name,
-          name,
-          flag: COUNTRY_FLAGS[name]
-        }));
-    } catch (error) {
-      console.error('Error fetching countries from Postgres:', error);
-      return [];
-    }
+    return new PartyRepository(createPostgresDriver(await ensurePostgres()));
+  }
+
+  return new PartyRepository(createSqlJsDriver(await ensureSqlite()));
+}
+
+/** Thrown by the write helpers when the SQLite file can't be written back. */
+export class DatabaseNotWritableError extends Error {
+  constructor(sqlitePath: string, cause: unknown) {
+    super(`The SQLite database ${sqlitePath} is read-only here, so changes can't be saved. Use Postgres (DATABASE_URL) for writes in this deployment.`);
+    this.name = 'DatabaseNotWritableError';
+    this.cause = cause;
+  }
+}
+
+// Serverless deployments usually serve the SQLite file from a read-only file
+// system. Checked before any rows change, so a write isn't half applied.
+async function assertSqliteWritable(): Promise<void> {
+  if (usePostgres || !sqlitePathInUse) {
+    return;
   }
 
   try {
-    const db = await ensureSqlite();
-    const result = db.exec(`
-      SELECT DISTINCT country
-      FROM parties
-      ORDER BY country
-    `);
-
-    if (result.length === 0 || result[0].values.length === 0) {
-      return [];
-    }
+    await fs.access(sqlitePathInUse, fsConstants.W_OK);
+  } catch (error) {
+    throw new DatabaseNotWritableError(sqlitePathInUse, error);
+  }
+}
+
+// sql.js works on an in-memory copy, so writes are flushed back to the file.
+// When that fails the copy is dropped, so reads don't serve unsaved changes.
+async function persistSqlite(): Promise<void> {
+  if (usePostgres || !sqliteDb || !sqlitePathInUse) {
+    return;
+  }
 
-    return result[0].values
-      .map((row) => row[0] as string | null)
-      .filter((name): name is string => typeof name === 'string' && name.length > 0)
-      .map((name) => ({
-        code: name,
-        name,
-        flag: COUNTRY_FLAGS[name]
-      }));
+  try {
+    await fs.writeFile(sqlitePathInUse, sqliteDb.export());
   } catch (error) {
-    console.error('Error fetching countries from SQLite:', error);
-    return [];
+    const sqlitePath = sqlitePathInUse;
+    sqliteDb = null;
+    sqliteInitPromise = null;
+    throw new DatabaseNotWritableError(sqlitePath, error);
   }
 }
 
-export async function fetchPartiesFromDatabase(countryCode: string): Promise<PoliticalParty[]> {
-  if (usePostgres) {
-    try {
-      const pool = await ensurePostgres();
-      const { rows } = await pool.query(`
-        SELECT id, name, type, country, founded, website, econ_freedom, personal_freedom
-        FROM parties
-        WHERE country = $1
-        ORDER BY name
-      `, [countryCode]);
-
-      if (!rows.length) {
-        return [];
-      }
-
-      return rows.map((row) => {
-        const dbParty: DBParty = {
-          id: row.id as string,
-          name: row.name as string,
-          type: row.type as string,
-          country: row.country as string,
-          founded: toNullableNumber(row.founded),
-          website: (row.website as string | null) ?? null,
-          econ_freedom: toNullableNumber(row.econ_freedom),
-          personal_freedom: toNullableNumber(row.personal_freedom),
-        };
-
-        return transformDBPartyToAppParty(dbParty);
-      });
-    } catch (error) {
-      console.error(`Error fetching parties for ${countryCode} from Postgres:`, error);
-      return [];
-    }
+const backendName = usePostgres ? 'Postgres' : 'SQLite';
+
+export async function fetchCountriesFromDatabase(): Promise<Country[]> {
+  try {
+    const repository = await getRepository();
+    return await repository.fetchCountries();
+  } catch (error) {
+    console.error(`Error fetching countries from ${backendName}:`, error);
+    return [];
   }
+}
 
+export async function fetchIdeologiesFromDatabase(): Promise<IdeologyDefinition[]> {
   try {
-    const db = await ensureSqlite();
-    const partiesResult = db.exec(`
-      SELECT id, name, type, country, founded, website, econ_freedom, personal_freedom
-      FROM parties
-      WHERE country = ?
-      ORDER BY name
-    `, [countryCode]);
-
-    if (partiesResult.length === 0 || partiesResult[0].values.length === 0) {
-      return [];
-    }
+    const repository = await getRepository();
+    return await repository.fetchIdeologies();
+  } catch (error) {
+    console.error(`Error fetching ideologies from ${backendName}:`, error);
+    return [];
+  }
+}
 
-    const parties: PoliticalParty[] = [];
-
-    for (const row of partiesResult[0].values) {
-      const dbParty: DBParty = {
-        id: row[0] as string,
-        name: row[1] as string,
-        type: row[2] as string,
-        country: row[3] as string,
-        founded: row[4] as number | null,
-        website: row[5] as string | null,
-        econ_freedom: row[6] as number | null,
-        personal_freedom: row[7] as number | null,
-      };
-
-      parties.push(transformDBPartyToAppParty(dbParty));
-    }
+export async function fetchQuizQuestionsFromDatabase(countryCodes: string[]): Promise<QuizQuestion[]> {
+  try {
+    const repository = await getRepository();
+    return await repository.fetchQuizQuestions(countryCodes);
+  } catch (error) {
+    console.error(`Error fetching quiz questions for ${countryCodes.join(', ') || 'all countries'} from ${backendName}:`, error);
+    return [];
+  }
+}
 
-    return parties;
+export async function fetchPartiesFromDatabase(
+  countryCodes: string | string[],
+  positionSource: PositionSource = DEFAULT_POSITION_SOURCE
+): Promise<PoliticalParty[]> {
+  try {
+    const repository = await getRepository();
+    return await repository.fetchParties(countryCodes, positionSource, { reviewedOnly });
   } catch (error) {
-    console.error(`Error fetching parties for ${countryCode} from SQLite:`, error);
+    console.error(`Error fetching parties for ${[countryCodes].flat().join(', ')} from ${backendName}:`, error);
     return [];
   }
 }
 
 export async function fetchPartyPoliciesFromDatabase(partyId: string): Promise<PolicyAnalysis[]> {
-  if (usePostgres) {
-    try {
-      const pool = await ensurePostgres();
-      const { rows } = await pool.query(`
-        SELECT
-          id, party_id, country, timestamp, chunk_index, policy_id,
-          policy, short_name, impact, impact_explanation,
-          category, explanation, econ_freedom, personal_freedom, weight, error
-        FROM llm_responses
-        WHERE party_id = $1 AND policy IS NOT NULL AND error IS NULL
-        ORDER BY chunk_index, policy_id
-      `, [partyId]);
-
-      if (!rows.length) {
-        return [];
-      }
-
-      const policies: PolicyAnalysis[] = [];
-
-      for (const row of rows) {
-        const policyText = row.policy as string | null;
-        const shortName = row.short_name as string | null;
-        const impact = row.impact as string | null;
-        const impactExplanation = row.impact_explanation as string | null;
-        const categoryJson = row.category as string | null;
-        const explanation = row.explanation as string | null;
-        const econFreedom = toNullableNumber(row.econ_freedom);
-        const personalFreedom = toNullableNumber(row.personal_freedom);
-
-        if (!policyText || !shortName) {
-          continue;
-        }
-
-        let categories: string[] = [];
-        if (categoryJson) {
-          try {
-            const parsed = JSON.parse(categoryJson);
-            categories = Array.isArray(parsed) ? parsed : [];
-          } catch (e) {
-            console.warn('Failed to parse category JSON:', categoryJson);
-          }
-        }
-
-        policies.push({
-          policyText,
-          shortName,
-          impact: (impact as 'high' | 'medium' | 'low') || 'medium',
-          categories,
-          explanation: explanation || impactExplanation || '',
-          econFreedom,
-          personalFreedom
-        });
-      }
-
-      return policies;
-    } catch (error) {
-      console.error(`Error fetching policies for party ${partyId} from Postgres:`, error);
-      return [];
-    }
+  try {
+    const repository = await getRepository();
+    return await repository.fetchPartyPolicies(partyId, { reviewedOnly });
+  } catch (error) {
+    console.error(`Error fetching policies for party ${partyId} from ${backendName}:`, error);
+    return [];
   }
+}
 
+export async function fetchPartyHistoriesFromDatabase(partyIds: string[]): Promise<PartyPositionHistory[]> {
   try {
-    const db = await ensureSqlite();
-    const result = db.exec(`
-      SELECT
-        id, party_id, country, timestamp, chunk_index, policy_id,
-        policy, short_name, impact, impact_explanation,
-        category, explanation, econ_freedom, personal_freedom, weight, error
-      FROM llm_responses
-      WHERE party_id = ? AND policy IS NOT NULL AND error IS NULL
-      ORDER BY chunk_index, policy_id
-    `, [partyId]);
-
-    if (result.length === 0 || result[0].values.length === 0) {
-      return [];
-    }
+    const repository = await getRepository();
+    return await repository.fetchPartyHistories(partyIds, { reviewedOnly });
+  } catch (error) {
+    console.error(`Error fetching party history from ${backendName}:`, error);
+    return [];
+  }
+}
 
-    const policies: PolicyAnalysis[] = [];
-
-    for (const row of result[0].values) {
-      const policyText = row[6] as string | null;
-      const shortName = row[7] as string | null;
-      const impact = row[8] as string | null;
-      const impactExplanation = row[9] as string | null;
-      const categoryJson = row[10] as string | null;
-      const explanation = row[11] as string | null;
-      const econFreedom = row[12] as number | null;
-      const personalFreedom = row[13] as number | null;
-
-      if (!policyText || !shortName) {
-        continue;
-      }
-
-      let categories: string[] = [];
-      if (categoryJson) {
-        try {
-          const parsed = JSON.parse(categoryJson);
-          categories = Array.isArray(parsed) ? parsed : [];
-        } catch (e) {
-          console.warn('Failed to parse category JSON:', categoryJson);
-        }
-      }
-
-      policies.push({
-        policyText,
-        shortName,
-        impact: (impact as 'high' | 'medium' | 'low') || 'medium',
-        categories,
-        explanation: explanation || impactExplanation || '',
-        econFreedom,
-        personalFreedom
-      });
-    }
+export async function fetchReviewQueueFromDatabase(partyId: string, status: ReviewStatus | null): Promise<ReviewablePolicy[]> {
+  try {
+    const repository = await getRepository();
+    return await repository.fetchReviewQueue(partyId, status);
+  } catch (error) {
+    console.error(`Error fetching review queue for party ${partyId} from ${backendName}:`, error);
+    return [];
+  }
+}
 
-    return policies;
+/**
+ * Saves a review and, on SQLite, writes the database file. Unlike the read
+ * helpers this throws, so callers can report failed writes; a read-only
+ * SQLite file throws DatabaseNotWritableError before anything changes.
+ */
+export async function savePolicyReviewToDatabase(review: PolicyReviewInput): Promise<boolean> {
+  const repository = await getRepository();
+  await assertSqliteWritable();
+  const saved = await repository.savePolicyReview(review);
+  if (saved) {
+    await persistSqlite();
+  }
+  return saved;
+}
+
+export async function fetchAnalysisErrorsFromDatabase(partyId: string | null): Promise<AnalysisError[]> {
+  try {
+    const repository = await getRepository();
+    return await repository.fetchAnalysisErrors(partyId);
   } catch (error) {
-    console.error(`Error fetching policies for party ${partyId} from SQLite:`, error);
+    console.error(`Error fetching analysis errors from ${backendName}:`, error);
     return [];
   }
 }
+
+/**
+ * Re-scores failed chunks (every retryable one, optionally of one party, when
+ * no ids are given) and writes the results. Throws on failure like
+ * savePolicyReviewToDatabase.
+ */
+export async function retryFailedChunksInDatabase(
+  provider: PolicyScoringProvider,
+  responseIds: number[] | null,
+  partyId: string | null
+): Promise<RetryFailedChunksResult> {
+  const repository = await getRepository();
+  await assertSqliteWritable();
+  const ids = responseIds ?? (await repository.fetchAnalysisErrors(partyId))
+    .filter((analysisError) => analysisError.retryable)
+    .map((analysisError) => analysisError.id);
+
+  const result = await retryFailedChunks(repository, { provider, responseIds: ids });
+  await persistSqlite();
+  return result;
+}
+
+export async function fetchDataQualityReportFromDatabase(options: DataQualityOptions = {}): Promise<DataQualityReport | null> {
+  try {
+    const repository = await getRepository();
+    return buildDataQualityReport(await repository.fetchQualityStats(), options);
+  } catch (error) {
+    console.error(`Error building data-quality report from ${backendName}:`, error);
+    return null;
+  }
+}
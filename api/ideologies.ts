@@ -0,0 +1,20 @@
+import { fetchIdeologiesFromDatabase } from './databaseService.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+export default async function handler(req: any, res: any) {
+  if (req.method && req.method !== 'GET') {
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  try {
+    const ideologies = await fetchIdeologiesFromDatabase();
+    res.status(200).json(ideologies);
+  } catch (error) {
+    console.error('Error in /api/ideologies:', error);
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
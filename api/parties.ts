@@ -1,23 +1,38 @@
 import { fetchPartiesFromDatabase } from './databaseService.js';
+import { DEFAULT_POSITION_SOURCE, isPositionSource } from '../src/lib/partyPositions.js';
 
 export const config = {
   runtime: 'nodejs',
 };
 
+const configuredPositionSource = process.env.PARTY_POSITION_SOURCE;
+const defaultPositionSource = isPositionSource(configuredPositionSource)
+  ? configuredPositionSource
+  : DEFAULT_POSITION_SOURCE;
+
 export default async function handler(req: any, res: any) {
   if (req.method && req.method !== 'GET') {
     res.status(405).json({ error: 'Method Not Allowed' });
     return;
   }
 
-  const country = req.query?.country as string | undefined;
-  if (!country) {
+  // Repeat the parameter for several countries: ?country=CZ&country=PL
+  const countries = [req.query?.country ?? []]
+    .flat()
+    .filter((country: unknown): country is string => typeof country === 'string' && country !== '');
+  if (countries.length === 0) {
     res.status(400).json({ error: 'Missing required query parameter "country"' });
     return;
   }
 
+  const positionSource = (req.query?.positionSource as string | undefined) ?? defaultPositionSource;
+  if (!isPositionSource(positionSource)) {
+    res.status(400).json({ error: 'Query parameter "positionSource" must be "stored" or "derived"' });
+    return;
+  }
+
   try {
-    const parties = await fetchPartiesFromDatabase(country);
+    const parties = await fetchPartiesFromDatabase(countries, positionSource);
     res.status(200).json(parties);
   } catch (error) {
     console.error('Error in /api/parties:', error);
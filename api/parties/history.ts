@@ -0,0 +1,30 @@
+import { fetchPartyHistoriesFromDatabase } from '../databaseService.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+export default async function handler(req: any, res: any) {
+  if (req.method && req.method !== 'GET') {
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  // partyId may be repeated to load several parties in one request
+  const rawPartyIds = req.query?.partyId as string | string[] | undefined;
+  const partyIds = (Array.isArray(rawPartyIds) ? rawPartyIds : [rawPartyIds]).filter(
+    (partyId): partyId is string => typeof partyId === 'string' && partyId.length > 0
+  );
+  if (partyIds.length === 0) {
+    res.status(400).json({ error: 'Missing required query parameter "partyId"' });
+    return;
+  }
+
+  try {
+    const histories = await fetchPartyHistoriesFromDatabase(partyIds);
+    res.status(200).json(histories);
+  } catch (error) {
+    console.error('Error in /api/parties/history:', error);
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,32 @@
+import { fetchDataQualityReportFromDatabase } from './databaseService.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+export default async function handler(req: any, res: any) {
+  if (req.method && req.method !== 'GET') {
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  const rawRatio = req.query?.maxErrorRatio as string | undefined;
+  const maxErrorRatio = rawRatio === undefined ? undefined : Number(rawRatio);
+  if (maxErrorRatio !== undefined && !(maxErrorRatio >= 0 && maxErrorRatio <= 1)) {
+    res.status(400).json({ error: 'Query parameter "maxErrorRatio" must be a number between 0 and 1' });
+    return;
+  }
+
+  try {
+    const report = await fetchDataQualityReportFromDatabase({ maxErrorRatio });
+    if (!report) {
+      res.status(500).json({ error: 'Internal Server Error' });
+      return;
+    }
+
+    res.status(200).json(report);
+  } catch (error) {
+    console.error('Error in /api/quality:', error);
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,26 @@
+import { fetchQuizQuestionsFromDatabase } from './databaseService.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+export default async function handler(req: any, res: any) {
+  if (req.method && req.method !== 'GET') {
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  // Questions for every country, plus each ?country=CZ&country=PL's own
+  const countries = [req.query?.country ?? []]
+    .flat()
+    .filter((country: unknown): country is string => typeof country === 'string' && country !== '')
+    .map((country: string) => country.toUpperCase());
+
+  try {
+    const questions = await fetchQuizQuestionsFromDatabase(countries);
+    res.status(200).json(questions);
+  } catch (error) {
+    console.error('Error in /api/quiz-questions:', error);
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,72 @@
+import { DatabaseNotWritableError, fetchReviewQueueFromDatabase, savePolicyReviewToDatabase } from './databaseService.js';
+import { isAdminApiEnabled, isAuthorized } from './adminAuth.js';
+import { isReviewStatus } from '../src/data/partyMappers.js';
+import { validatePolicyReview } from '../src/data/policyReviewValidation.js';
+
+export const config = {
+  runtime: 'nodejs',
+};
+
+export default async function handler(req: any, res: any) {
+  if (req.method && req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({ error: 'Method Not Allowed' });
+    return;
+  }
+
+  if (!isAdminApiEnabled()) {
+    res.status(503).json({ error: 'Policy review is disabled. Set REVIEW_API_TOKEN to enable it.' });
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+      const result = validatePolicyReview(body);
+      if (result.ok === false) {
+        res.status(400).json({ error: 'Invalid review', details: result.errors });
+        return;
+      }
+
+      const saved = await savePolicyReviewToDatabase(result.value);
+      if (!saved) {
+        res.status(404).json({ error: `Policy ${result.value.responseId} does not exist` });
+        return;
+      }
+
+      res.status(200).json({ ok: true });
+      return;
+    }
+
+    const partyId = req.query?.partyId as string | undefined;
+    if (!partyId) {
+      res.status(400).json({ error: 'Missing required query parameter "partyId"' });
+      return;
+    }
+
+    const status = req.query?.status as string | undefined;
+    if (status !== undefined && !isReviewStatus(status)) {
+      res.status(400).json({ error: 'Query parameter "status" must be pending, approved, rejected or edited' });
+      return;
+    }
+
+    const policies = await fetchReviewQueueFromDatabase(partyId, isReviewStatus(status) ? status : null);
+    res.status(200).json(policies);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      res.status(400).json({ error: 'Request body must be valid JSON' });
+      return;
+    }
+    if (error instanceof DatabaseNotWritableError) {
+      res.status(503).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error in /api/reviews:', error);
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
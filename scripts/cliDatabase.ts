@@ -0,0 +1,35 @@
+import { promises as fs } from 'node:fs';
+import { connectPostgres, openSqliteFile, resolveSqlitePath } from '../api/databaseService.js';
+import { SqlDriver, createPostgresDriver, createSqlJsDriver } from '../src/data/sqlDrivers.js';
+
+export interface CliDatabase {
+  driver: SqlDriver;
+  label: string;
+  // Persists changes; sql.js works on an in-memory copy of the SQLite file
+  save: () => Promise<void>;
+}
+
+/**
+ * Opens the database the API would serve from: Postgres when DATABASE_URL is
+ * set, otherwise the local SQLite file (SQLITE_DB_PATH, data/ or public/).
+ * Pass `transactions` when the script needs `driver.transaction` on Postgres.
+ */
+export async function openCliDatabase({ transactions = false } = {}): Promise<CliDatabase> {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (databaseUrl) {
+    const pool = await connectPostgres(databaseUrl, { transactions });
+    return {
+      driver: createPostgresDriver(pool),
+      label: 'Postgres (DATABASE_URL)',
+      save: async () => {}
+    };
+  }
+
+  const sqlitePath = await resolveSqlitePath();
+  const db = await openSqliteFile(sqlitePath);
+  return {
+    driver: createSqlJsDriver(db),
+    label: sqlitePath,
+    save: () => fs.writeFile(sqlitePath, db.export())
+  };
+}
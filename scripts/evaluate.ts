@@ -0,0 +1,94 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { PartyRepository } from '../src/data/partyRepository.js';
+import { assertSchemaUpToDate } from '../src/data/migrations.js';
+import { GoldenPolicy, evaluateRun, parseGoldenPolicy } from '../src/scoring/evaluation.js';
+import { openCliDatabase } from './cliDatabase.js';
+import { renderEvaluationHtml } from './evaluationReport.js';
+import { readRecordFile } from './recordFiles.js';
+
+// Usage: npm run evaluate -- --run <runId> [--out evaluation/<runId>] <golden.jsonl|golden.csv>
+// Scores an analysis run against a hand-labelled golden set and writes the
+// metrics to <out>.json and <out>.html. The summary is also printed.
+
+const USAGE = 'Usage: npm run evaluate -- --run <runId> [--out evaluation/<runId>] <golden.jsonl|golden.csv>';
+
+function parseArgs(args: string[]) {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--')) {
+      options[arg.slice(2)] = args[++i] ?? '';
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { options, positional };
+}
+
+async function main() {
+  const { options, positional } = parseArgs(process.argv.slice(2));
+  const runId = options.run;
+  const [goldenPath] = positional;
+  if (!runId || !goldenPath) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const golden: GoldenPolicy[] = [];
+  let invalid = 0;
+  const { records, unreadable } = await readRecordFile(goldenPath);
+  for (const { line, error } of unreadable) {
+    invalid++;
+    console.error(`${path.basename(goldenPath)}:${line}: ${error}`);
+  }
+  for (const { line, record } of records) {
+    const result = parseGoldenPolicy(record, line);
+    if (result.ok === false) {
+      invalid++;
+      console.error(`${path.basename(goldenPath)}:${line}: ${result.errors.join('; ')}`);
+      continue;
+    }
+    golden.push(result.value);
+  }
+
+  const database = await openCliDatabase();
+  await assertSchemaUpToDate(database.driver);
+  const repository = new PartyRepository(database.driver);
+
+  const run = (await repository.fetchAnalysisRuns()).find((candidate) => candidate.id === runId) ?? null;
+  if (run === null) {
+    console.error(`Analysis run "${runId}" does not exist in ${database.label}`);
+    return 1;
+  }
+
+  const report = evaluateRun(runId, golden, await repository.fetchRunResponses(runId));
+
+  const outBase = options.out || path.join('evaluation', runId);
+  await fs.mkdir(path.dirname(outBase), { recursive: true });
+  await fs.writeFile(`${outBase}.json`, `${JSON.stringify({ run, ...report }, null, 2)}\n`);
+  await fs.writeFile(`${outBase}.html`, renderEvaluationHtml(report, run));
+
+  const percent = (value: number | null) => (value === null ? '–' : `${(value * 100).toFixed(1)}%`);
+  const decimal = (value: number | null) => (value === null ? '–' : value.toFixed(2));
+  console.log(`Run ${runId} (${run.provider}, ${run.model}, prompt ${run.promptVersion})`);
+  console.log(`Matched ${report.matchedCount} of ${report.goldenCount} golden policies${invalid > 0 ? ` (${invalid} invalid row(s) skipped)` : ''}`);
+  console.log(`MAE: ${decimal(report.meanAbsoluteError)} (econ ${decimal(report.econFreedom.meanAbsoluteError)}, personal ${decimal(report.personalFreedom.meanAbsoluteError)})`);
+  console.log(`Sign agreement: econ ${percent(report.econFreedom.signAgreement)}, personal ${percent(report.personalFreedom.signAgreement)}`);
+  console.log(`Impact accuracy: ${percent(report.impactAccuracy)}`);
+  console.log(`Category accuracy: ${percent(report.categoryExactAccuracy)} exact, ${decimal(report.categoryJaccard)} mean Jaccard`);
+  console.log(`Wrote ${outBase}.json and ${outBase}.html`);
+
+  return 0;
+}
+
+main().then(
+  (exitCode) => process.exit(exitCode),
+  (error) => {
+    console.error('Evaluation failed:', error);
+    process.exit(1);
+  }
+);
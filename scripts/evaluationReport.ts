@@ -0,0 +1,103 @@
+import type { AnalysisRun } from '../src/types/political';
+import { EvaluationReport, IMPACT_LEVELS } from '../src/scoring/evaluation.js';
+
+// Self-contained HTML rendering of an EvaluationReport, meant to be opened
+// straight from disk or attached to a PR that changes a prompt.
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatNumber(value: number | null, digits = 2): string {
+  return value === null ? '–' : value.toFixed(digits);
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '–' : `${(value * 100).toFixed(1)}%`;
+}
+
+export function renderEvaluationHtml(report: EvaluationReport, run: AnalysisRun | null): string {
+  const predicted = [...IMPACT_LEVELS, 'missing'] as const;
+  const runSummary = run
+    ? `${run.provider} · ${run.model} · prompt ${run.promptVersion} · ${run.createdAt}`
+    : 'run metadata not found';
+
+  const metricRows: Array<[string, string]> = [
+    ['Matched policies', `${report.matchedCount} / ${report.goldenCount}`],
+    ['MAE (both axes)', formatNumber(report.meanAbsoluteError)],
+    ['MAE econ_freedom', formatNumber(report.econFreedom.meanAbsoluteError)],
+    ['MAE personal_freedom', formatNumber(report.personalFreedom.meanAbsoluteError)],
+    ['Sign agreement econ_freedom', formatPercent(report.econFreedom.signAgreement)],
+    ['Sign agreement personal_freedom', formatPercent(report.personalFreedom.signAgreement)],
+    ['Impact accuracy', formatPercent(report.impactAccuracy)],
+    ['Category exact match', formatPercent(report.categoryExactAccuracy)],
+    ['Category Jaccard (mean)', formatNumber(report.categoryJaccard)],
+  ];
+
+  const confusionRows = IMPACT_LEVELS.map((expected) => `
+        <tr><th>${expected}</th>${predicted.map((actual) => `<td class="${expected === actual ? 'hit' : ''}">${report.impactConfusion[expected][actual]}</td>`).join('')}</tr>`).join('');
+
+  const matchRows = report.matches.map((match) => `
+        <tr>
+          <td>${match.line}</td>
+          <td>${escapeHtml(match.partyId)}</td>
+          <td>${escapeHtml(match.policyText)}</td>
+          <td>${formatNumber(match.expected.econFreedom, 1)} / ${formatNumber(match.actual.econFreedom, 1)}</td>
+          <td>${formatNumber(match.expected.personalFreedom, 1)} / ${formatNumber(match.actual.personalFreedom, 1)}</td>
+          <td>${match.expected.impact} / ${match.actual.impact ?? '–'}</td>
+          <td>${escapeHtml(match.expected.categories.join(', '))} / ${escapeHtml(match.actual.categories.join(', '))}</td>
+        </tr>`).join('');
+
+  const unmatchedItems = report.unmatched.map((entry) => `
+        <li>line ${entry.line}: ${escapeHtml(entry.partyId)} — ${escapeHtml(entry.policyText)}</li>`).join('');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Scoring evaluation: ${escapeHtml(report.runId)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+    table { border-collapse: collapse; margin-bottom: 2rem; }
+    th, td { border: 1px solid #d1d5db; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }
+    th { background: #f3f4f6; }
+    td.hit { background: #dcfce7; font-weight: 600; }
+    .muted { color: #6b7280; }
+  </style>
+</head>
+<body>
+  <h1>Scoring evaluation: ${escapeHtml(report.runId)}</h1>
+  <p class="muted">${escapeHtml(runSummary)}<br>Generated ${escapeHtml(report.generatedAt)}</p>
+
+  <h2>Summary</h2>
+  <table>${metricRows.map(([label, value]) => `
+    <tr><th>${label}</th><td>${value}</td></tr>`).join('')}
+  </table>
+
+  <h2>Impact confusion matrix</h2>
+  <p class="muted">Rows are expected impact, columns are the run's impact.</p>
+  <table>
+    <thead><tr><th></th>${predicted.map((actual) => `<th>${actual}</th>`).join('')}</tr></thead>
+    <tbody>${confusionRows}
+    </tbody>
+  </table>
+
+  <h2>Matched policies</h2>
+  <p class="muted">Each cell shows expected / actual.</p>
+  <table>
+    <thead><tr><th>Line</th><th>Party</th><th>Policy</th><th>econ_freedom</th><th>personal_freedom</th><th>Impact</th><th>Categories</th></tr></thead>
+    <tbody>${matchRows}
+    </tbody>
+  </table>
+${report.unmatched.length > 0 ? `
+  <h2>Unmatched golden policies (${report.unmatched.length})</h2>
+  <ul>${unmatchedItems}
+  </ul>
+` : ''}</body>
+</html>
+`;
+}
@@ -0,0 +1,105 @@
+import { promises as fs } from 'node:fs';
+import { PartyRepository } from '../src/data/partyRepository.js';
+import { assertSchemaUpToDate } from '../src/data/migrations.js';
+import { parsePolicyImpact } from '../src/lib/partyPositions.js';
+import {
+  DEFAULT_QUIZ_GENERATOR_OPTIONS,
+  QuizBank,
+  QuizCandidate,
+  QuizGeneratorOptions,
+  generateQuizQuestions
+} from '../src/lib/quizGenerator.js';
+import { openCliDatabase } from './cliDatabase.js';
+
+// Usage: npm run quiz:generate -- --country CZ [--country PL] [--min-impact high] [--min-strength 5] [--similarity 0.6] [--limit 20] [--reviewed-only] [--out quiz-bank.json]
+// Turns the selected countries' high-impact, strongly scored policies into
+// agree/disagree statements, drops near-duplicates and statements already
+// asked, and writes a question bank (to --out, or stdout) for review.
+// Approve entries in the file, then load them with npm run quiz:import.
+
+const USAGE = 'Usage: npm run quiz:generate -- --country CZ [--country PL] [--min-impact high] [--min-strength 5] [--similarity 0.6] [--limit 20] [--reviewed-only] [--out quiz-bank.json]';
+const VALUE_OPTIONS = ['country', 'min-impact', 'min-strength', 'similarity', 'limit', 'out'] as const;
+
+function parseArgs(args: string[]) {
+  const flags = new Set<string>();
+  const values: Partial<Record<typeof VALUE_OPTIONS[number], string[]>> = {};
+
+  for (let index = 0; index < args.length; index++) {
+    const name = args[index].slice(2) as typeof VALUE_OPTIONS[number];
+    if (args[index].startsWith('--') && VALUE_OPTIONS.includes(name)) {
+      values[name] = [...(values[name] ?? []), args[++index]];
+    } else {
+      flags.add(name);
+    }
+  }
+
+  return { flags, values };
+}
+
+function parseOptions(values: ReturnType<typeof parseArgs>['values']): QuizGeneratorOptions | null {
+  const last = (name: typeof VALUE_OPTIONS[number]) => values[name]?.[values[name]!.length - 1];
+  const minImpact = last('min-impact') === undefined ? DEFAULT_QUIZ_GENERATOR_OPTIONS.minImpact : parsePolicyImpact(last('min-impact'));
+  const minStrength = Number(last('min-strength') ?? DEFAULT_QUIZ_GENERATOR_OPTIONS.minStrength);
+  const similarity = Number(last('similarity') ?? DEFAULT_QUIZ_GENERATOR_OPTIONS.similarity);
+  const limit = Number(last('limit') ?? DEFAULT_QUIZ_GENERATOR_OPTIONS.limit);
+
+  if (minImpact === null || !(minStrength >= 0 && minStrength <= 10) || !(similarity > 0 && similarity <= 1) || !(Number.isInteger(limit) && limit > 0)) {
+    return null;
+  }
+  return { minImpact, minStrength, similarity, limit };
+}
+
+async function main() {
+  const { flags, values } = parseArgs(process.argv.slice(2));
+  const countries = [...new Set((values.country ?? []).filter(Boolean).map((code) => code.toUpperCase()))];
+  const options = parseOptions(values);
+  const knownFlags = new Set(['reviewed-only']);
+  if (countries.length === 0 || !options || [...flags].some((flag) => !knownFlags.has(flag))) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const database = await openCliDatabase();
+  await assertSchemaUpToDate(database.driver);
+  const repository = new PartyRepository(database.driver);
+
+  const parties = await repository.fetchParties(countries);
+  const candidates: QuizCandidate[] = [];
+  for (const party of parties) {
+    if (!party.country) continue;
+    const country = party.country.code;
+    const policies = await repository.fetchPartyPolicies(party.id, { reviewedOnly: flags.has('reviewed-only') });
+    candidates.push(...policies.map((policy) => ({ partyId: party.id, country, policy })));
+  }
+
+  const existing = await repository.fetchQuizQuestions(countries);
+  const bank: QuizBank = {
+    generatedAt: new Date().toISOString(),
+    countries,
+    options,
+    questions: generateQuizQuestions(candidates, existing, options)
+  };
+
+  const json = `${JSON.stringify(bank, null, 2)}\n`;
+  const out = values.out?.[values.out.length - 1];
+  if (!out) {
+    process.stdout.write(json);
+    return 0;
+  }
+
+  await fs.writeFile(out, json);
+  const needsRewrite = bank.questions.filter((question) => question.needsRewrite).length;
+  console.error(`Wrote ${bank.questions.length} statements from ${candidates.length} policies of ${parties.length} parties to ${out}`);
+  if (needsRewrite > 0) {
+    console.error(`${needsRewrite} statements are marked needsRewrite and must be rewritten before they can be approved`);
+  }
+  return 0;
+}
+
+main().then(
+  (exitCode) => process.exit(exitCode),
+  (error) => {
+    console.error('Quiz generation failed:', error);
+    process.exit(1);
+  }
+);
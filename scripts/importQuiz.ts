@@ -0,0 +1,81 @@
+import { promises as fs } from 'node:fs';
+import { QuizQuestion } from '../src/types/political';
+import { PartyRepository } from '../src/data/partyRepository.js';
+import { assertSchemaUpToDate } from '../src/data/migrations.js';
+import { QuizBank, validateQuizBankEntry } from '../src/lib/quizGenerator.js';
+import { openCliDatabase } from './cliDatabase.js';
+
+// Usage: npm run quiz:import -- [--dry-run] <quiz-bank.json>
+// Loads the approved entries of a reviewed question bank (from
+// npm run quiz:generate) into quiz_questions, replacing questions with the
+// same id. Pending and rejected entries are skipped. Nothing is written when
+// any approved entry is invalid or names an unknown country.
+
+const USAGE = 'Usage: npm run quiz:import -- [--dry-run] <quiz-bank.json>';
+
+// Generated questions are asked after the general ones, which migration 10 numbers from 1
+const GENERATED_SORT_ORDER_START = 100;
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const files = args.filter((arg) => !arg.startsWith('--'));
+  if (files.length !== 1) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const bank = JSON.parse(await fs.readFile(files[0], 'utf8')) as QuizBank;
+  if (!Array.isArray(bank.questions)) {
+    console.error(`${files[0]} is not a question bank: "questions" is missing`);
+    return 1;
+  }
+
+  const database = await openCliDatabase();
+  await assertSchemaUpToDate(database.driver);
+  const repository = new PartyRepository(database.driver);
+  const knownCountries = new Set((await repository.fetchCountries()).map((country) => country.code));
+
+  const approved = bank.questions.filter((entry) => entry.status === 'approved');
+  let invalid = 0;
+  for (const entry of bank.questions) {
+    const errors = validateQuizBankEntry(entry);
+    if (entry.status === 'approved' && !knownCountries.has(entry.country)) {
+      errors.push(`country ${entry.country} is not in the countries table`);
+    }
+    if (errors.length > 0) {
+      console.error(`${entry.id || '(no id)'}: ${errors.join('; ')}`);
+      if (entry.status === 'approved') invalid++;
+    }
+  }
+  if (invalid > 0) {
+    console.error(`${invalid} approved ${invalid === 1 ? 'entry is' : 'entries are'} invalid; nothing was imported`);
+    return 1;
+  }
+
+  const questions: QuizQuestion[] = approved.map((entry, index) => ({
+    id: entry.id,
+    country: entry.country,
+    statement: entry.statement.trim(),
+    econDirection: entry.econDirection,
+    personalDirection: entry.personalDirection,
+    sortOrder: GENERATED_SORT_ORDER_START + index
+  }));
+
+  if (!dryRun) {
+    await repository.upsertQuizQuestions(questions);
+    await database.save();
+  }
+
+  const skipped = bank.questions.length - approved.length;
+  console.log(`${dryRun ? 'Would import' : 'Imported'} ${questions.length} approved questions into ${database.label}; skipped ${skipped} pending or rejected`);
+  return 0;
+}
+
+main().then(
+  (exitCode) => process.exit(exitCode),
+  (error) => {
+    console.error('Quiz import failed:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,150 @@
+import path from 'node:path';
+import { AnalysisRun, LLMPolicyResponse } from '../src/types/political';
+import { PartyRepository } from '../src/data/partyRepository.js';
+import { assertSchemaUpToDate } from '../src/data/migrations.js';
+import { validateLLMResponse } from '../src/data/llmResponseValidation.js';
+import { analysisRunId } from '../src/scoring/pipeline.js';
+import { openCliDatabase } from './cliDatabase.js';
+import { readRecordFile } from './recordFiles.js';
+
+// Usage: npm run db:ingest -- [--dry-run] [--strict] [--provider name --model name --prompt-version v [--description text]] <file.jsonl|file.csv>...
+// Validates LLM scoring output against the llm_responses schema and upserts
+// the valid rows (by id) into Postgres (DATABASE_URL) or the local SQLite file.
+// --dry-run only validates; --strict exits non-zero when any row is rejected.
+// Rows must reference an existing analysis run through run_id; with
+// --provider/--model/--prompt-version a new run is recorded for rows that
+// don't carry one.
+
+const USAGE = 'Usage: npm run db:ingest -- [--dry-run] [--strict] [--provider name --model name --prompt-version v [--description text]] <file.jsonl|file.csv>...';
+const RUN_OPTIONS = ['provider', 'model', 'prompt-version', 'description'] as const;
+
+interface Rejection {
+  file: string;
+  line: number;
+  errors: string[];
+}
+
+function parseArgs(args: string[]) {
+  const flags = new Set<string>();
+  const runOptions: Partial<Record<typeof RUN_OPTIONS[number], string>> = {};
+  const files: string[] = [];
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    const name = arg.slice(2) as typeof RUN_OPTIONS[number];
+    if (arg.startsWith('--') && RUN_OPTIONS.includes(name)) {
+      runOptions[name] = args[++index];
+    } else if (arg.startsWith('--')) {
+      flags.add(name);
+    } else {
+      files.push(arg);
+    }
+  }
+
+  return { flags, runOptions, files };
+}
+
+async function main() {
+  const { flags, runOptions, files } = parseArgs(process.argv.slice(2));
+  const dryRun = flags.has('dry-run');
+  const strict = flags.has('strict');
+
+  const { provider, model, 'prompt-version': promptVersion, description } = runOptions;
+  const runFlagCount = [provider, model, promptVersion].filter(Boolean).length;
+  if (files.length === 0 || (runFlagCount > 0 && runFlagCount < 3)) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const createdAt = new Date();
+  const newRun: AnalysisRun | null = runFlagCount === 3
+    ? {
+      id: analysisRunId(createdAt, 'ingest'),
+      provider: provider!,
+      model: model!,
+      promptVersion: promptVersion!,
+      createdAt: createdAt.toISOString(),
+      description: description ?? `Ingested from ${files.map((file) => path.basename(file)).join(', ')}`
+    }
+    : null;
+
+  const database = await openCliDatabase();
+  await assertSchemaUpToDate(database.driver);
+  const repository = new PartyRepository(database.driver);
+  const knownParties = await repository.fetchPartyIds();
+  const knownRuns = new Set((await repository.fetchAnalysisRuns()).map((run) => run.id));
+
+  const accepted = new Map<number, LLMPolicyResponse>();
+  const rejections: Rejection[] = [];
+  let total = 0;
+
+  for (const file of files) {
+    const { records, unreadable } = await readRecordFile(file);
+    total += records.length + unreadable.length;
+    for (const { line, error } of unreadable) {
+      rejections.push({ file, line, errors: [error] });
+    }
+
+    for (const { line, record } of records) {
+      const result = validateLLMResponse(record);
+      if (result.ok === false) {
+        rejections.push({ file, line, errors: result.errors });
+        continue;
+      }
+
+      if (!knownParties.has(result.value.party_id)) {
+        rejections.push({ file, line, errors: [`party_id "${result.value.party_id}" does not exist in parties`] });
+        continue;
+      }
+
+      const response = { ...result.value, run_id: result.value.run_id ?? newRun?.id ?? null };
+      if (response.run_id === null) {
+        rejections.push({ file, line, errors: ['run_id is required; pass --provider, --model and --prompt-version to record a run for this file'] });
+        continue;
+      }
+      if (response.run_id !== newRun?.id && !knownRuns.has(response.run_id)) {
+        rejections.push({ file, line, errors: [`run_id "${response.run_id}" does not exist in analysis_runs`] });
+        continue;
+      }
+
+      // Later rows win when the same id appears more than once
+      accepted.set(response.id, response);
+    }
+  }
+
+  const usesNewRun = newRun !== null && [...accepted.values()].some((response) => response.run_id === newRun.id);
+
+  if (!dryRun && accepted.size > 0) {
+    if (usesNewRun) {
+      await repository.createAnalysisRun(newRun);
+    }
+    await repository.upsertLLMResponses([...accepted.values()]);
+    await database.save();
+  }
+
+  console.log(`Target: ${database.label}${dryRun ? ' (dry run, nothing written)' : ''}`);
+  console.log(`Read ${total} rows from ${files.length} file(s)`);
+  if (usesNewRun) {
+    console.log(`Analysis run: ${newRun.id} (${newRun.provider}, ${newRun.model}, prompt ${newRun.promptVersion})`);
+  }
+  console.log(`${dryRun ? 'Valid' : 'Upserted'}: ${accepted.size}`);
+  console.log(`Rejected: ${rejections.length}`);
+
+  const byFileAndLine = (a: Rejection, b: Rejection) => files.indexOf(a.file) - files.indexOf(b.file) || a.line - b.line;
+  for (const rejection of [...rejections].sort(byFileAndLine)) {
+    console.log(`  ${path.basename(rejection.file)}:${rejection.line}`);
+    for (const error of rejection.errors) {
+      console.log(`    - ${error}`);
+    }
+  }
+
+  return strict && rejections.length > 0 ? 1 : 0;
+}
+
+main().then(
+  (exitCode) => process.exit(exitCode),
+  (error) => {
+    console.error('Ingestion failed:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,32 @@
+import { LATEST_SCHEMA_VERSION, getSchemaVersion, runMigrations } from '../src/data/migrations.js';
+import { openCliDatabase } from './cliDatabase.js';
+
+// Usage: npm run db:migrate
+// Applies pending schema migrations to Postgres (DATABASE_URL) or the local
+// SQLite file (SQLITE_DB_PATH, data/data.db or public/data.db).
+
+async function main() {
+  const database = await openCliDatabase({ transactions: true });
+  const fromVersion = await getSchemaVersion(database.driver);
+  console.log(`Migrating ${database.label} from schema version ${fromVersion} to ${LATEST_SCHEMA_VERSION}`);
+
+  const applied = await runMigrations(database.driver);
+  await database.save();
+
+  if (applied.length === 0) {
+    console.log('Schema is already up to date.');
+    return;
+  }
+
+  for (const migration of applied) {
+    console.log(`  applied ${migration.version}: ${migration.name}`);
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+);
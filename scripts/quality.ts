@@ -0,0 +1,60 @@
+import { PartyRepository } from '../src/data/partyRepository.js';
+import { assertSchemaUpToDate } from '../src/data/migrations.js';
+import { DATA_QUALITY_ISSUE_KINDS, DATA_QUALITY_LABELS, buildDataQualityReport } from '../src/lib/dataQuality.js';
+import { openCliDatabase } from './cliDatabase.js';
+
+// Usage: npm run db:quality -- [--json] [--strict] [--max-error-ratio 0.25]
+// Reports parties with missing scores or policies, high failed-chunk ratios,
+// out-of-range scores and unparsable category JSON. --json prints the same
+// report /api/quality serves; --strict exits non-zero when anything is found.
+
+const USAGE = 'Usage: npm run db:quality -- [--json] [--strict] [--max-error-ratio 0.25]';
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const strict = args.includes('--strict');
+  const ratioIndex = args.indexOf('--max-error-ratio');
+  const maxErrorRatio = ratioIndex >= 0 ? Number(args[ratioIndex + 1]) : undefined;
+  if (maxErrorRatio !== undefined && !(maxErrorRatio >= 0 && maxErrorRatio <= 1)) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const database = await openCliDatabase();
+  await assertSchemaUpToDate(database.driver);
+  const repository = new PartyRepository(database.driver);
+  const report = buildDataQualityReport(await repository.fetchQualityStats(), { maxErrorRatio });
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Data quality for ${database.label}`);
+    console.log(`${report.partiesWithIssues} of ${report.partyCount} parties have issues`);
+    for (const kind of DATA_QUALITY_ISSUE_KINDS) {
+      console.log(`  ${DATA_QUALITY_LABELS[kind]}: ${report.issueCounts[kind]}`);
+    }
+
+    for (const party of report.parties) {
+      console.log(`\n${party.partyName} (${party.partyId}, ${party.country}): ${plural(party.policyCount, 'policy', 'policies')}, ${plural(party.errorCount, 'failed chunk')}`);
+      for (const issue of party.issues) {
+        const ids = issue.responseIds && issue.responseIds.length > 0 ? ` [rows ${issue.responseIds.join(', ')}]` : '';
+        console.log(`  - ${DATA_QUALITY_LABELS[issue.kind]}: ${issue.message}${ids}`);
+      }
+    }
+  }
+
+  return strict && report.partiesWithIssues > 0 ? 1 : 0;
+}
+
+main().then(
+  (exitCode) => process.exit(exitCode),
+  (error) => {
+    console.error('Quality report failed:', error);
+    process.exit(1);
+  }
+);
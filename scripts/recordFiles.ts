@@ -0,0 +1,132 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+export interface SourceRecord {
+  line: number;
+  record: Record<string, unknown>;
+}
+
+// A line that couldn't be read as a record at all, e.g. malformed JSON
+export interface UnreadableRecord {
+  line: number;
+  error: string;
+}
+
+export interface RecordFile {
+  records: SourceRecord[];
+  unreadable: UnreadableRecord[];
+}
+
+// Minimal RFC 4180 reader: quoted fields may contain commas, doubled quotes
+// and newlines. Returns rows together with the line each one starts on.
+function parseCsvRows(text: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      if (cells.some((value) => value !== '')) {
+        rows.push({ line: rowLine, cells });
+      }
+      cells = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  if (cells.some((value) => value !== '')) {
+    rows.push({ line: rowLine, cells });
+  }
+
+  return rows;
+}
+
+function parseCsv(text: string): RecordFile {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) {
+    return { records: [], unreadable: [] };
+  }
+
+  const columns = header.cells.map((column) => column.trim());
+  return {
+    records: rows.map(({ line, cells }) => ({
+      line,
+      record: Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))
+    })),
+    unreadable: []
+  };
+}
+
+// A malformed line is reported and skipped; the lines after it are still read
+function parseJsonLines(text: string): RecordFile {
+  const records: SourceRecord[] = [];
+  const unreadable: UnreadableRecord[] = [];
+  text.split(/\r?\n/).forEach((content, index) => {
+    if (content.trim() === '') return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      unreadable.push({ line: index + 1, error: `not valid JSON: ${(error as Error).message}` });
+      return;
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      unreadable.push({ line: index + 1, error: 'not a JSON object' });
+      return;
+    }
+
+    records.push({ line: index + 1, record: parsed as Record<string, unknown> });
+  });
+  return { records, unreadable };
+}
+
+/**
+ * Reads `.jsonl` (one JSON object per line) or `.csv` (header row) files into
+ * plain records for validation, along with the lines that couldn't be parsed.
+ */
+export async function readRecordFile(filePath: string): Promise<RecordFile> {
+  const text = await fs.readFile(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === '.csv') {
+    return parseCsv(text);
+  }
+
+  if (extension === '.jsonl' || extension === '.ndjson') {
+    return parseJsonLines(text);
+  }
+
+  throw new Error(`Unsupported file type "${extension}" for ${filePath}; expected .jsonl or .csv`);
+}
@@ -0,0 +1,69 @@
+import { PartyRepository } from '../src/data/partyRepository.js';
+import { assertSchemaUpToDate } from '../src/data/migrations.js';
+import { retryFailedChunks } from '../src/scoring/retry.js';
+import { createScoringProvider, defaultScoringProvider } from '../src/scoring/providers.js';
+import { openCliDatabase } from './cliDatabase.js';
+
+// Usage: npm run score:retry -- [--party <partyId>] [--provider <name>] [--dry-run]
+// Re-scores failed chunks (llm_responses rows with error set). Chunks that now
+// yield policies replace their error row; the rest keep it with the new error.
+// --dry-run only reports what would happen.
+// --provider defaults to SCORING_PROVIDER; the offline mock provider needs
+// ENABLE_MOCK_SCORING=true.
+
+function parseArgs(args: string[]) {
+  const options: Record<string, string | boolean> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg.startsWith('--')) {
+      options[arg.slice(2)] = args[++i] ?? '';
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const dryRun = options.dryRun === true;
+  const partyId = typeof options.party === 'string' ? options.party : null;
+  const providerName = typeof options.provider === 'string' ? options.provider : defaultScoringProvider();
+  if (!providerName) {
+    console.error('No scoring provider given; pass --provider or set SCORING_PROVIDER');
+    return 1;
+  }
+  const provider = createScoringProvider(providerName);
+
+  const database = await openCliDatabase();
+  await assertSchemaUpToDate(database.driver);
+  const repository = new PartyRepository(database.driver);
+
+  const failed = await repository.fetchAnalysisErrors(partyId);
+  const { run, results } = await retryFailedChunks(repository, {
+    provider,
+    responseIds: failed.map((analysisError) => analysisError.id),
+    dryRun
+  });
+
+  if (!dryRun) {
+    await database.save();
+  }
+
+  for (const result of results) {
+    const detail = result.status === 'succeeded' ? `${result.policyCount} policies` : result.error;
+    console.log(`${result.partyId} chunk ${result.chunkIndex} (#${result.responseId}): ${result.status}${detail ? ` - ${detail}` : ''}`);
+  }
+  const succeeded = results.filter((result) => result.status === 'succeeded').length;
+  console.error(`${dryRun ? 'Dry run: ' : ''}retried ${results.length} failed chunk(s) in ${database.label} with ${provider.name}${run ? ` (run ${run.id})` : ''}; ${succeeded} succeeded`);
+
+  return 0;
+}
+
+main().then(
+  (exitCode) => process.exit(exitCode),
+  (error) => {
+    console.error('Retry failed:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,102 @@
+import { promises as fs } from 'node:fs';
+import { PartyRepository } from '../src/data/partyRepository.js';
+import { assertSchemaUpToDate } from '../src/data/migrations.js';
+import { runScoringPipeline } from '../src/scoring/pipeline.js';
+import { createScoringProvider, defaultScoringProvider } from '../src/scoring/providers.js';
+import { openCliDatabase } from './cliDatabase.js';
+
+// Usage: npm run score -- --party <partyId> [--provider <name>] [--max-chunk-chars 4000] [--description text] [--dry-run] <manifesto.txt>
+// Chunks a manifesto, scores every chunk with the chosen provider and writes
+// an analysis run with its llm_responses rows. --dry-run prints them instead.
+// --provider defaults to SCORING_PROVIDER; the offline mock provider needs
+// ENABLE_MOCK_SCORING=true.
+
+const USAGE = 'Usage: npm run score -- --party <partyId> [--provider <name>] [--max-chunk-chars 4000] [--description text] [--dry-run] <manifesto.txt>';
+
+function parseArgs(args: string[]) {
+  const options: Record<string, string | boolean> = {};
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg.startsWith('--')) {
+      options[arg.slice(2)] = args[++i] ?? '';
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { options, positional };
+}
+
+async function main() {
+  const { options, positional } = parseArgs(process.argv.slice(2));
+  const partyId = typeof options.party === 'string' ? options.party : '';
+  const [manifestoPath] = positional;
+  if (!partyId || !manifestoPath) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const dryRun = options.dryRun === true;
+  const providerName = typeof options.provider === 'string' ? options.provider : defaultScoringProvider();
+  if (!providerName) {
+    console.error('No scoring provider given; pass --provider or set SCORING_PROVIDER');
+    return 1;
+  }
+  const maxChunkChars = typeof options['max-chunk-chars'] === 'string' ? Number(options['max-chunk-chars']) : undefined;
+  if (maxChunkChars !== undefined && !(Number.isInteger(maxChunkChars) && maxChunkChars > 0)) {
+    console.error('--max-chunk-chars must be a positive integer');
+    return 1;
+  }
+  const provider = createScoringProvider(providerName);
+  const text = await fs.readFile(manifestoPath, 'utf8');
+
+  const database = await openCliDatabase();
+  await assertSchemaUpToDate(database.driver);
+  const repository = new PartyRepository(database.driver);
+
+  const country = await repository.fetchPartyCountry(partyId);
+  if (country === null) {
+    console.error(`Party "${partyId}" does not exist in parties`);
+    return 1;
+  }
+
+  const result = await runScoringPipeline({
+    partyId,
+    country,
+    text,
+    provider,
+    firstId: await repository.nextLLMResponseId(),
+    maxChunkChars,
+    runDescription: typeof options.description === 'string' ? options.description : undefined
+  });
+
+  if (dryRun) {
+    console.log(JSON.stringify(result.run));
+    result.responses.forEach((response) => console.log(JSON.stringify(response)));
+  } else {
+    await repository.createAnalysisRun(result.run);
+    await repository.upsertLLMResponses(result.responses);
+    await database.save();
+  }
+
+  const policyCount = result.responses.filter((response) => response.error === null).length;
+  console.error(`Run ${result.run.id}: scored ${result.chunkCount} chunk(s) with ${provider.name} (${provider.model}, prompt ${provider.promptVersion}) for ${partyId}`);
+  console.error(`${dryRun ? 'Would write' : 'Wrote'} ${policyCount} policies to ${database.label}`);
+  if (result.failedChunks.length > 0) {
+    console.error(`Failed chunks: ${result.failedChunks.join(', ')}`);
+  }
+
+  return 0;
+}
+
+main().then(
+  (exitCode) => process.exit(exitCode),
+  (error) => {
+    console.error('Scoring failed:', error);
+    process.exit(1);
+  }
+);
@@ -6,6 +6,12 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "@/components/theme-provider";
 import { Analytics } from "@vercel/analytics/react";
 import Index from "./pages/Index";
+import Compare from "./pages/Compare";
+import Country from "./pages/Country";
+import Party from "./pages/Party";
+import Quiz from "./pages/Quiz";
+import AnalysisErrors from "./pages/AnalysisErrors";
+import Review from "./pages/Review";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient({
@@ -27,6 +33,12 @@ const App = () => (
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
+            <Route path="/country/:code" element={<Country />} />
+            <Route path="/party/:id" element={<Party />} />
+            <Route path="/compare" element={<Compare />} />
+            <Route path="/quiz" element={<Quiz />} />
+            <Route path="/review" element={<Review />} />
+            <Route path="/admin/analysis-errors" element={<AnalysisErrors />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
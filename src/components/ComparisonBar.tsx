@@ -0,0 +1,73 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { GitCompare, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { MAX_COMPARED_PARTIES, MIN_COMPARED_PARTIES } from '@/lib/partyComparison';
+import { PoliticalParty } from '@/types/political';
+
+interface ComparisonBarProps {
+  parties: PoliticalParty[];
+  onRemove: (party: PoliticalParty) => void;
+  onClear: () => void;
+}
+
+// Parties picked on the compass for comparison, with a link to the
+// comparison page once enough are picked
+export function ComparisonBar({ parties, onRemove, onClear }: ComparisonBarProps) {
+  const canCompare = parties.length >= MIN_COMPARED_PARTIES;
+  const comparisonUrl = `/compare?${new URLSearchParams(parties.map(party => ['party', party.slug]))}`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-4"
+    >
+      <Card className="p-4 flex flex-wrap items-center gap-3">
+        <span className="text-sm text-muted-foreground">
+          {parties.length === 0
+            ? `Click ${MIN_COMPARED_PARTIES} to ${MAX_COMPARED_PARTIES} parties on the compass to compare them.`
+            : `Comparing ${parties.length} of up to ${MAX_COMPARED_PARTIES}:`}
+        </span>
+
+        {parties.map(party => (
+          <Badge key={party.slug} variant="secondary" className="gap-1 pr-1">
+            {party.name}
+            <button
+              type="button"
+              onClick={() => onRemove(party)}
+              className="rounded-full p-0.5 hover:bg-muted"
+              aria-label={`Remove ${party.name} from comparison`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+
+        <div className="flex gap-2 ml-auto">
+          {parties.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={onClear}>
+              Clear
+            </Button>
+          )}
+          {canCompare ? (
+            <Button size="sm" asChild>
+              <Link to={comparisonUrl}>
+                <GitCompare className="h-4 w-4 mr-2" />
+                Compare
+              </Link>
+            </Button>
+          ) : (
+            <Button size="sm" disabled>
+              <GitCompare className="h-4 w-4 mr-2" />
+              Compare
+            </Button>
+          )}
+        </div>
+      </Card>
+    </motion.div>
+  );
+}
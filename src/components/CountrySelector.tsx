@@ -1,14 +1,17 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Check, ChevronsUpDown, Search } from 'lucide-react';
+import { Check, ChevronsUpDown, Search, Users, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import {
   Command,
   CommandEmpty,
   CommandGroup,
   CommandInput,
   CommandItem,
+  CommandList,
+  CommandSeparator,
 } from '@/components/ui/command';
 import {
   Popover,
@@ -16,6 +19,8 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { Country } from '@/types/political';
+import { countriesByRegion, groupMembers, predefinedCountryGroups } from '@/lib/countryGroups';
+import { useCountryGroups } from '@/hooks/use-country-groups';
 
 interface CountrySelectorProps {
   countries: Country[];
@@ -31,16 +36,40 @@ export function CountrySelector({
   isLoading = false
 }: CountrySelectorProps) {
   const [open, setOpen] = React.useState(false);
+  const [groupName, setGroupName] = React.useState('');
+  const { groups: customGroups, saveGroup, deleteGroup } = useCountryGroups();
+
+  const groups = React.useMemo(
+    () => [...predefinedCountryGroups(countries), ...customGroups]
+      .map(group => ({ group, members: groupMembers(group, countries) }))
+      .filter(({ members }) => members.length > 0),
+    [countries, customGroups]
+  );
+  const regions = React.useMemo(() => countriesByRegion(countries), [countries]);
+  const isSelected = (country: Country) => selectedCountries.some(c => c.code === country.code);
 
   const handleCountryToggle = (country: Country) => {
-    const isSelected = selectedCountries.some(c => c.code === country.code);
-    if (isSelected) {
+    if (isSelected(country)) {
       onCountrySelect(selectedCountries.filter(c => c.code !== country.code));
     } else {
       onCountrySelect([...selectedCountries, country]);
     }
   };
 
+  // Selects the whole group, or deselects it when it is already fully selected
+  const handleGroupToggle = (members: Country[]) => {
+    if (members.every(isSelected)) {
+      onCountrySelect(selectedCountries.filter(c => !members.some(member => member.code === c.code)));
+    } else {
+      onCountrySelect([...selectedCountries, ...members.filter(member => !isSelected(member))]);
+    }
+  };
+
+  const handleSaveGroup = () => {
+    saveGroup(groupName.trim(), selectedCountries.map(country => country.code));
+    setGroupName('');
+  };
+
   const displayText = () => {
     if (selectedCountries.length === 0) {
       return "Select countries...";
@@ -120,30 +149,113 @@ export function CountrySelector({
               placeholder="Search countries..." 
               className="h-12"
             />
-            <CommandEmpty>No country found.</CommandEmpty>
-            <CommandGroup className="max-h-64 overflow-y-auto">
-              {countries.map((country) => {
-                const isSelected = selectedCountries.some(c => c.code === country.code);
-                return (
-                  <CommandItem
-                    key={country.code}
-                    value={`${country.name} ${country.code}`}
-                    onSelect={() => handleCountryToggle(country)}
-                    className="flex items-center gap-3 h-12 px-4 cursor-pointer"
-                  >
-                    <span className="text-lg">{country.flag}</span>
-                    <span className="font-medium">{country.name}</span>
-                    <Check
-                      className={cn(
-                        "ml-auto h-4 w-4",
-                        isSelected ? "opacity-100" : "opacity-0"
+            <div className="flex items-center justify-between px-4 py-2 border-b">
+              <span className="text-xs text-muted-foreground">
+                {selectedCountries.length} of {countries.length} selected
+              </span>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={selectedCountries.length === countries.length}
+                  onClick={() => onCountrySelect(countries)}
+                >
+                  Select all
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={selectedCountries.length === 0}
+                  onClick={() => onCountrySelect([])}
+                >
+                  Clear
+                </Button>
+              </div>
+            </div>
+            <CommandList className="max-h-80">
+              <CommandEmpty>No country found.</CommandEmpty>
+              {groups.length > 0 && (
+                <CommandGroup heading="Groups">
+                  {groups.map(({ group, members }) => (
+                    <CommandItem
+                      key={group.id}
+                      value={`group ${group.name} ${group.codes.join(' ')}`}
+                      onSelect={() => handleGroupToggle(members)}
+                      className="flex items-center gap-3 h-10 px-4 cursor-pointer"
+                    >
+                      <Users className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium">{group.name}</span>
+                      <span className="text-xs text-muted-foreground">{members.length}</span>
+                      {group.custom && (
+                        <button
+                          type="button"
+                          className="rounded-full p-1 text-muted-foreground hover:text-foreground"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            deleteGroup(group.id);
+                          }}
+                          aria-label={`Delete group ${group.name}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
                       )}
-                    />
-                  </CommandItem>
-                );
-              })}
-            </CommandGroup>
+                      <Check
+                        className={cn(
+                          "ml-auto h-4 w-4",
+                          members.every(isSelected) ? "opacity-100" : "opacity-0"
+                        )}
+                      />
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              <CommandSeparator />
+              {regions.map(([region, regionCountries]) => (
+                <CommandGroup key={region} heading={region}>
+                  {regionCountries.map((country) => (
+                    <CommandItem
+                      key={country.code}
+                      value={`${country.name} ${country.code}`}
+                      onSelect={() => handleCountryToggle(country)}
+                      className="flex items-center gap-3 h-12 px-4 cursor-pointer"
+                    >
+                      <span className="text-lg">{country.flag}</span>
+                      <span className="font-medium">{country.name}</span>
+                      <Check
+                        className={cn(
+                          "ml-auto h-4 w-4",
+                          isSelected(country) ? "opacity-100" : "opacity-0"
+                        )}
+                      />
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              ))}
+            </CommandList>
           </Command>
+          <div className="flex gap-2 p-3 border-t">
+            <Input
+              placeholder="Save selection as group..."
+              value={groupName}
+              onChange={(event) => setGroupName(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter' && groupName.trim() && selectedCountries.length > 0) {
+                  handleSaveGroup();
+                }
+              }}
+              className="h-9"
+            />
+            <Button
+              size="sm"
+              className="h-9"
+              disabled={groupName.trim() === '' || selectedCountries.length === 0}
+              onClick={handleSaveGroup}
+            >
+              Save
+            </Button>
+          </div>
         </PopoverContent>
       </Popover>
     </motion.div>
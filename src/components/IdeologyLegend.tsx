@@ -3,26 +3,63 @@ import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { Search } from 'lucide-react';
-import { Ideology, IDEOLOGY_LABELS, IDEOLOGY_COLORS } from '@/types/political';
+import { ClassificationScheme, CLASSIFICATION_SCHEME_LABELS, Ideology } from '@/types/political';
+import { useIdeologies } from '@/hooks/use-ideologies';
+import {
+  NO_PARTY_FAMILY,
+  PARTY_FAMILIES,
+  PARTY_FAMILY_COLORS,
+  PARTY_FAMILY_LABELS,
+  PartyFamilyFilter
+} from '@/lib/partyFamilies';
 import { cn } from '@/lib/utils';
 
 interface IdeologyLegendProps {
-  visibleIdeologies: Set<Ideology>;
+  hiddenIdeologies: Set<Ideology>;
   onToggleIdeology: (ideology: Ideology) => void;
+  onSetHiddenIdeologies: (hidden: Set<Ideology>) => void;
   searchQuery: string;
   onSearchChange: (query: string) => void;
   partyCounts?: Partial<Record<Ideology, number>>;
+  showRegions?: boolean;
+  onShowRegionsChange?: (show: boolean) => void;
+  scheme?: ClassificationScheme;
+  onSchemeChange?: (scheme: ClassificationScheme) => void;
+  unclassifiedCount?: number; // parties the scheme gives no ideology, hidden from the compass
+  hiddenFamilies?: Set<PartyFamilyFilter>;
+  onToggleFamily?: (family: PartyFamilyFilter) => void;
+  familyCounts?: Partial<Record<PartyFamilyFilter, number>>;
 }
 
 export function IdeologyLegend({
-  visibleIdeologies,
+  hiddenIdeologies,
   onToggleIdeology,
+  onSetHiddenIdeologies,
   searchQuery,
   onSearchChange,
-  partyCounts = {}
+  partyCounts = {},
+  showRegions = false,
+  onShowRegionsChange,
+  scheme = 'rules',
+  onSchemeChange,
+  unclassifiedCount = 0,
+  hiddenFamilies = new Set(),
+  onToggleFamily,
+  familyCounts = {}
 }: IdeologyLegendProps) {
-  const ideologies = Object.keys(IDEOLOGY_LABELS) as Ideology[];
+  const { ideologies: definitions, getIdeology } = useIdeologies();
+  // Defined ideologies first, then any the parties use without a definition
+  const ideologies = [
+    ...definitions.map((definition) => definition.id),
+    ...Object.keys(partyCounts).filter((id) => !definitions.some((definition) => definition.id === id)).sort()
+  ];
+  const schemes = Object.keys(CLASSIFICATION_SCHEME_LABELS) as ClassificationScheme[];
+  const families: PartyFamilyFilter[] = [...PARTY_FAMILIES, NO_PARTY_FAMILY];
 
   return (
     <motion.div
@@ -46,78 +83,157 @@ export function IdeologyLegend({
         </div>
 
         {/* Legend Title */}
-        <h3 className="text-lg font-semibold mb-4 text-card-foreground">
-          Political Ideologies
-        </h3>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-lg font-semibold text-card-foreground">
+            Political Ideologies
+          </h3>
+          <div className="flex flex-wrap items-center gap-4">
+            {onSchemeChange && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="classification-scheme" className="text-sm text-muted-foreground">
+                  Classify by
+                </Label>
+                <Select value={scheme} onValueChange={(value) => onSchemeChange(value as ClassificationScheme)}>
+                  <SelectTrigger id="classification-scheme" className="h-9 w-44 rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {schemes.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {CLASSIFICATION_SCHEME_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {onShowRegionsChange && scheme === 'rules' && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="preview-ideology-regions"
+                  checked={showRegions}
+                  onCheckedChange={onShowRegionsChange}
+                />
+                <Label htmlFor="preview-ideology-regions" className="text-sm text-muted-foreground cursor-pointer">
+                  Preview regions
+                </Label>
+              </div>
+            )}
+          </div>
+        </div>
 
         {/* Ideology Filters */}
         <div className="flex flex-wrap gap-3">
           {ideologies.map((ideology) => {
-            const isVisible = visibleIdeologies.has(ideology);
+            const { label, color, description } = getIdeology(ideology);
+            const isVisible = !hiddenIdeologies.has(ideology);
             const count = partyCounts[ideology] || 0;
             
+            const button = (
+              <Button
+                variant={isVisible ? "default" : "outline"}
+                onClick={() => onToggleIdeology(ideology)}
+                className={cn(
+                  "rounded-full h-10 px-4 transition-all duration-300",
+                  "flex items-center gap-2",
+                  isVisible 
+                    ? "shadow-md" 
+                    : "opacity-60 hover:opacity-100"
+                )}
+                style={
+                  isVisible
+                    ? {
+                        backgroundColor: color,
+                        borderColor: color,
+                        color: 'white'
+                      }
+                    : {
+                        borderColor: color,
+                        color
+                      }
+                }
+              >
+                <div
+                  className="w-3 h-3 rounded-full"
+                  style={{ backgroundColor: color }}
+                />
+                <span className="font-medium">
+                  {label}
+                </span>
+                {count > 0 && (
+                  <Badge 
+                    variant="secondary" 
+                    className="ml-1 h-5 px-2 text-xs bg-white/20 text-inherit border-0"
+                  >
+                    {count}
+                  </Badge>
+                )}
+              </Button>
+            );
+
             return (
               <motion.div
                 key={ideology}
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
               >
-                <Button
-                  variant={isVisible ? "default" : "outline"}
-                  onClick={() => onToggleIdeology(ideology)}
-                  className={cn(
-                    "rounded-full h-10 px-4 transition-all duration-300",
-                    "flex items-center gap-2",
-                    isVisible 
-                      ? "shadow-md" 
-                      : "opacity-60 hover:opacity-100"
-                  )}
-                  style={
-                    isVisible
-                      ? {
-                          backgroundColor: IDEOLOGY_COLORS[ideology],
-                          borderColor: IDEOLOGY_COLORS[ideology],
-                          color: 'white'
-                        }
-                      : {
-                          borderColor: IDEOLOGY_COLORS[ideology],
-                          color: IDEOLOGY_COLORS[ideology]
-                        }
-                  }
-                >
-                  <div
-                    className="w-3 h-3 rounded-full"
-                    style={{ backgroundColor: IDEOLOGY_COLORS[ideology] }}
-                  />
-                  <span className="font-medium">
-                    {IDEOLOGY_LABELS[ideology]}
-                  </span>
-                  {count > 0 && (
-                    <Badge 
-                      variant="secondary" 
-                      className="ml-1 h-5 px-2 text-xs bg-white/20 text-inherit border-0"
-                    >
-                      {count}
-                    </Badge>
-                  )}
-                </Button>
+                {description ? (
+                  <Tooltip>
+                    <TooltipTrigger asChild>{button}</TooltipTrigger>
+                    <TooltipContent className="max-w-xs">{description}</TooltipContent>
+                  </Tooltip>
+                ) : button}
               </motion.div>
             );
           })}
         </div>
 
+        {unclassifiedCount > 0 && (
+          <p className="text-sm text-muted-foreground mt-4">
+            {unclassifiedCount} {unclassifiedCount === 1 ? 'party has' : 'parties have'} no ideology under this scheme and {unclassifiedCount === 1 ? 'is' : 'are'} hidden.
+          </p>
+        )}
+
+        {/* Party Family Filters */}
+        {onToggleFamily && (
+          <div className="mt-6">
+            <h4 className="text-sm font-semibold mb-3 text-card-foreground">
+              European Party Families
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {families.map((family) => {
+                const isVisible = !hiddenFamilies.has(family);
+                const count = familyCounts[family] || 0;
+                const color = family === NO_PARTY_FAMILY ? 'hsl(var(--muted-foreground))' : PARTY_FAMILY_COLORS[family];
+
+                return (
+                  <Button
+                    key={family}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onToggleFamily(family)}
+                    className={cn(
+                      "rounded-full h-8 px-3 flex items-center gap-2 transition-all duration-300",
+                      !isVisible && "opacity-50 line-through"
+                    )}
+                    style={{ borderColor: color }}
+                  >
+                    <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+                    <span>{family === NO_PARTY_FAMILY ? 'Unmapped' : PARTY_FAMILY_LABELS[family]}</span>
+                    {count > 0 && <span className="text-xs text-muted-foreground">{count}</span>}
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Quick Actions */}
         <div className="flex gap-2 mt-4 pt-4 border-t border-border/50">
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => {
-              ideologies.forEach(ideology => {
-                if (!visibleIdeologies.has(ideology)) {
-                  onToggleIdeology(ideology);
-                }
-              });
-            }}
+            onClick={() => onSetHiddenIdeologies(new Set())}
             className="text-xs"
           >
             Show All
@@ -125,13 +241,7 @@ export function IdeologyLegend({
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => {
-              ideologies.forEach(ideology => {
-                if (visibleIdeologies.has(ideology)) {
-                  onToggleIdeology(ideology);
-                }
-              });
-            }}
+            onClick={() => onSetHiddenIdeologies(new Set(ideologies))}
             className="text-xs"
           >
             Hide All
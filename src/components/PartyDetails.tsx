@@ -0,0 +1,149 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ExternalLink, Calendar, Users, MapPin, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { PoliticalParty } from '@/types/political';
+import { useIdeologies } from '@/hooks/use-ideologies';
+import { DATA_QUALITY_LABELS } from '@/lib/dataQuality';
+
+interface PartyDetailsProps {
+  party: PoliticalParty;
+  actions?: React.ReactNode; // extra buttons shown above the website link
+}
+
+const getPositionDescription = (econ: number, personal: number) => {
+  const economicDesc = econ > 3 ? 'Free Market' : econ < -3 ? 'Regulated Economy' : 'Mixed Economy';
+  const personalDesc = personal > 3 ? 'Libertarian' : personal < -3 ? 'Authoritarian' : 'Moderate';
+  return `${economicDesc}, ${personalDesc}`;
+};
+
+// Badges, compass position, facts and description of a party, shared by the
+// detail drawer and the party page
+export function PartyDetails({ party, actions }: PartyDetailsProps) {
+  const { getIdeology } = useIdeologies();
+  const ideology = getIdeology(party.ideology);
+
+  return (
+    <div>
+      <Badge
+        className="mb-4"
+        style={{
+          backgroundColor: ideology.color,
+          color: 'white'
+        }}
+      >
+        {ideology.label}
+      </Badge>
+
+      {party.dataQualityIssues.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge variant="outline" className="mb-4 ml-2 gap-1 border-amber-500 text-amber-600 dark:text-amber-400 cursor-help">
+              <AlertTriangle className="h-3 w-3" />
+              Incomplete data
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p className="font-medium mb-1">This placement is based on incomplete data:</p>
+            <ul className="list-disc pl-4">
+              {party.dataQualityIssues.map((issue) => (
+                <li key={issue}>{DATA_QUALITY_LABELS[issue]}</li>
+              ))}
+            </ul>
+          </TooltipContent>
+        </Tooltip>
+      )}
+
+      {/* Position on Compass */}
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold mb-3">Political Position</h3>
+        <div className="bg-muted/50 rounded-xl p-4">
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="text-center">
+              <div className="text-2xl font-bold text-primary">
+                {party.econFreedom > 0 ? '+' : ''}{party.econFreedom}
+              </div>
+              <div className="text-sm text-muted-foreground">Economic</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-primary">
+                {party.personalFreedom > 0 ? '+' : ''}{party.personalFreedom}
+              </div>
+              <div className="text-sm text-muted-foreground">Personal</div>
+            </div>
+          </div>
+          <div className="text-sm text-center text-muted-foreground">
+            {getPositionDescription(party.econFreedom, party.personalFreedom)}
+          </div>
+          {party.positionSource && (
+            <div className="text-xs text-center text-muted-foreground mt-2">
+              {party.positionSource === 'derived'
+                ? `Derived from ${party.policyCount} scored ${party.policyCount === 1 ? 'policy' : 'policies'}`
+                : 'Based on the stored party score'}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Separator className="my-6" />
+
+      {/* Party Details */}
+      <div className="space-y-4 mb-6">
+        {party.country && (
+          <div className="flex items-center gap-3">
+            <MapPin className="h-5 w-5 text-muted-foreground" />
+            <Link to={`/country/${party.country.code.toLowerCase()}`} className="text-sm hover:underline">
+              {party.country.flag} {party.country.name}
+            </Link>
+          </div>
+        )}
+
+        {party.founded && (
+          <div className="flex items-center gap-3">
+            <Calendar className="h-5 w-5 text-muted-foreground" />
+            <span className="text-sm">Founded in {party.founded}</span>
+          </div>
+        )}
+
+        {party.support && (
+          <div className="flex items-center gap-3">
+            <Users className="h-5 w-5 text-muted-foreground" />
+            <span className="text-sm">{party.support}% public support</span>
+          </div>
+        )}
+      </div>
+
+      {/* Description */}
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold mb-3">About</h3>
+        <p className="text-muted-foreground leading-relaxed">
+          {party.description}
+        </p>
+        {ideology.description && (
+          <p className="text-sm text-muted-foreground leading-relaxed mt-3">
+            <span className="font-medium text-card-foreground">{ideology.label}:</span> {ideology.description}
+          </p>
+        )}
+      </div>
+
+      {/* Action Buttons */}
+      <div className="space-y-3">
+        {actions}
+
+        {party.website && (
+          <Button
+            variant="outline"
+            className="w-full rounded-xl"
+            onClick={() => window.open(party.website, '_blank')}
+          >
+            <ExternalLink className="h-4 w-4 mr-2" />
+            Visit Official Website
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, AlertCircle, Info, Loader2 } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AnalysisRun, PoliticalParty, PolicyAnalysis } from '@/types/political';
+import { fetchPartyPolicies } from '@/data/databaseService';
+import { groupPolicies } from '@/lib/policyCategories';
+
+interface PolicyAnalysisListProps {
+  party: PoliticalParty;
+  enabled?: boolean; // policies are only fetched while enabled
+  onComparingChange?: (isComparing: boolean) => void;
+}
+
+// Select values for "every run" and for rows scored before runs were recorded
+const ALL_RUNS = 'all';
+const UNATTRIBUTED_RUN = 'unattributed';
+const NO_COMPARISON = 'none';
+
+function runKey(policy: PolicyAnalysis): string {
+  return policy.run?.id ?? UNATTRIBUTED_RUN;
+}
+
+function runLabel(run: AnalysisRun | null): string {
+  if (!run) return 'Unattributed';
+  return `${run.provider} · ${run.model} · prompt ${run.promptVersion}`;
+}
+
+function runDate(run: AnalysisRun | null): string | null {
+  if (!run) return null;
+  const date = new Date(run.createdAt);
+  return Number.isNaN(date.getTime()) ? run.createdAt : date.toLocaleString();
+}
+
+// A party's analysed policies grouped by category, with a picker to show one
+// analysis run or compare two side by side
+export function PolicyAnalysisList({ party, enabled = true, onComparingChange }: PolicyAnalysisListProps) {
+  const [selectedRun, setSelectedRun] = useState<string>(ALL_RUNS);
+  const [comparedRun, setComparedRun] = useState<string>(NO_COMPARISON);
+
+  useEffect(() => {
+    setSelectedRun(ALL_RUNS);
+    setComparedRun(NO_COMPARISON);
+  }, [party.slug]);
+
+  // Fetch real policy data from database
+  const { data: policies = [], isLoading } = useQuery({
+    queryKey: ['partyPolicies', party.slug],
+    queryFn: () => fetchPartyPolicies(party.id),
+    enabled,
+  });
+
+  // Runs that produced this party's policies, newest first
+  const runs = useMemo(() => {
+    const byKey = new Map<string, AnalysisRun | null>();
+    policies.forEach(policy => byKey.set(runKey(policy), policy.run));
+    return [...byKey.entries()]
+      .map(([key, run]) => ({ key, run }))
+      .sort((a, b) => (b.run?.createdAt ?? '').localeCompare(a.run?.createdAt ?? ''));
+  }, [policies]);
+
+  const isComparing = selectedRun !== ALL_RUNS && comparedRun !== NO_COMPARISON && comparedRun !== selectedRun;
+
+  const columns = useMemo(() => {
+    const keys = selectedRun === ALL_RUNS ? [null] : isComparing ? [selectedRun, comparedRun] : [selectedRun];
+    return keys.map(key => {
+      const runPolicies = key === null ? policies : policies.filter(policy => runKey(policy) === key);
+      return {
+        key: key ?? ALL_RUNS,
+        run: key === null ? undefined : runs.find(entry => entry.key === key)?.run ?? null,
+        policyCount: runPolicies.length,
+        groups: groupPolicies(runPolicies)
+      };
+    });
+  }, [policies, runs, selectedRun, comparedRun, isComparing]);
+
+  useEffect(() => {
+    onComparingChange?.(isComparing);
+  }, [isComparing, onComparingChange]);
+
+  const handleRunChange = (value: string) => {
+    setSelectedRun(value);
+    if (value === ALL_RUNS || value === comparedRun) {
+      setComparedRun(NO_COMPARISON);
+    }
+  };
+
+  const getFactCheckIcon = (impact: string) => {
+    switch (impact) {
+      case 'high': return <AlertCircle className="h-4 w-4 text-red-600" />;
+      case 'medium': return <Info className="h-4 w-4 text-yellow-600" />;
+      case 'low': return <CheckCircle className="h-4 w-4 text-green-600" />;
+      default: return <Info className="h-4 w-4 text-gray-600" />;
+    }
+  };
+
+  const getCategoryBadgeStyle = (category: string): string => {
+    const lowerCategory = category.toLowerCase();
+
+    // Economic axis colors
+    if (lowerCategory.includes('far left')) {
+      return 'bg-red-600 text-white border-red-600';
+    }
+    if (lowerCategory.includes('moderately left') || lowerCategory.includes('left')) {
+      return 'bg-red-400 text-white border-red-400';
+    }
+    if (lowerCategory.includes('far right')) {
+      return 'bg-blue-600 text-white border-blue-600';
+    }
+    if (lowerCategory.includes('moderately right') || lowerCategory.includes('right')) {
+      return 'bg-blue-400 text-white border-blue-400';
+    }
+
+    // Authority axis colors
+    if (lowerCategory.includes('very authoritarian') || lowerCategory.includes('far authoritarian')) {
+      return 'bg-purple-600 text-white border-purple-600';
+    }
+    if (lowerCategory.includes('moderately authoritarian') || lowerCategory.includes('authoritarian')) {
+      return 'bg-purple-400 text-white border-purple-400';
+    }
+    if (lowerCategory.includes('very libertarian') || lowerCategory.includes('far libertarian')) {
+      return 'bg-green-600 text-white border-green-600';
+    }
+    if (lowerCategory.includes('moderately libertarian') || lowerCategory.includes('libertarian')) {
+      return 'bg-green-400 text-white border-green-400';
+    }
+
+    // Centrist
+    if (lowerCategory.includes('centrist') || lowerCategory.includes('center')) {
+      return 'bg-gray-400 text-white border-gray-400';
+    }
+
+    // Default style
+    return 'bg-muted text-muted-foreground border-border';
+  };
+
+  const getImpactBadgeStyle = (impact: string): string => {
+    switch (impact) {
+      case 'high':
+        return 'bg-red-500 text-white border-red-500';
+      case 'medium':
+        return 'bg-yellow-500 text-white border-yellow-500';
+      case 'low':
+        return 'bg-green-500 text-white border-green-500';
+      default:
+        return 'bg-gray-400 text-white border-gray-400';
+    }
+  };
+
+  return (
+    <div>
+      {/* Run selection */}
+      {runs.length > 0 && (
+        <div className="flex flex-wrap gap-4 mb-6">
+          <div className="space-y-1.5 min-w-[16rem] flex-1">
+            <Label htmlFor="analysis-run">Analysis run</Label>
+            <Select value={selectedRun} onValueChange={handleRunChange}>
+              <SelectTrigger id="analysis-run">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_RUNS}>All runs ({runs.length})</SelectItem>
+                {runs.map(({ key, run }) => (
+                  <SelectItem key={key} value={key}>{runLabel(run)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedRun !== ALL_RUNS && runs.length > 1 && (
+            <div className="space-y-1.5 min-w-[16rem] flex-1">
+              <Label htmlFor="compared-run">Compare with</Label>
+              <Select value={comparedRun} onValueChange={setComparedRun}>
+                <SelectTrigger id="compared-run">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_COMPARISON}>No comparison</SelectItem>
+                  {runs
+                    .filter(({ key }) => key !== selectedRun)
+                    .map(({ key, run }) => (
+                      <SelectItem key={key} value={key}>{runLabel(run)}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Policy Analysis */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : policies.length === 0 ? (
+        <Card className="p-6">
+          <p className="text-center text-muted-foreground">
+            No policy analysis data available for this party yet.
+          </p>
+        </Card>
+      ) : (
+        <div className={isComparing ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : ''}>
+          {columns.map(column => (
+            <div key={column.key} className="space-y-6 min-w-0">
+              {column.run !== undefined && (
+                <div className="rounded-lg border p-3">
+                  <p className="font-medium text-sm">{runLabel(column.run)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[runDate(column.run), column.run?.description, `${column.policyCount} ${column.policyCount === 1 ? 'policy' : 'policies'}`]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                </div>
+              )}
+
+              {column.groups.map((categoryGroup) => (
+                <Card key={categoryGroup.category} className="p-6">
+                  <h4 className="text-lg font-semibold mb-4 text-primary">
+                    {categoryGroup.category}
+                  </h4>
+
+                  <div className="space-y-4">
+                    {categoryGroup.policies.map((policy, policyIndex) => (
+                      <div key={policyIndex} className="border rounded-lg p-4">
+                        <div className="flex items-start gap-3 mb-3">
+                          {getFactCheckIcon(policy.impact)}
+                          <div className="flex-1">
+                            <p className="font-medium mb-2">{policy.shortName}</p>
+                            <p className="text-sm text-muted-foreground mb-2">{policy.policyText}</p>
+                            <div className="flex gap-2 flex-wrap">
+                              <Badge className={`text-xs ${getImpactBadgeStyle(policy.impact)}`}>
+                                {policy.impact} impact
+                              </Badge>
+                              {policy.categories.map((cat, idx) => (
+                                <Badge key={idx} className={`text-xs ${getCategoryBadgeStyle(cat)}`}>
+                                  {cat}
+                                </Badge>
+                              ))}
+                              {selectedRun === ALL_RUNS && (
+                                <Badge variant="outline" className="text-xs" title={runDate(policy.run) ?? undefined}>
+                                  {runLabel(policy.run)}
+                                </Badge>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+
+                        <div className="ml-7 space-y-3">
+                          {policy.explanation && (
+                            <p className="text-sm text-muted-foreground">
+                              {policy.explanation}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </Card>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-6 p-4 bg-muted/30 rounded-xl">
+        <p className="text-xs text-muted-foreground text-center">
+          This analysis is generated by AI based on party platforms and policy documents.
+          {policies.length > 0 && ` Analyzing ${policies.length} ${policies.length === 1 ? 'policy' : 'policies'}.`}
+          {party.failedChunkCount > 0 && ` ${party.failedChunkCount} manifesto ${party.failedChunkCount === 1 ? 'section' : 'sections'} could not be analyzed yet and ${party.failedChunkCount === 1 ? 'is' : 'are'} not shown.`}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Check, RotateCcw, Save, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form';
+import { PolicyReviewInput, ReviewStatus, ReviewablePolicy } from '@/types/political';
+
+// Kept as text so a blank field stays blank instead of becoming 0
+const axisScore = z
+  .string()
+  .trim()
+  .refine((value) => value === '' || Number.isFinite(Number(value)), 'Enter a number')
+  .refine((value) => value === '' || Math.abs(Number(value)) <= 10, 'Must be between -10 and 10');
+
+const reviewFormSchema = z.object({
+  econFreedom: axisScore,
+  personalFreedom: axisScore,
+  impact: z.enum(['high', 'medium', 'low']),
+  categories: z.string().refine(
+    (value) => value.split(',').some((category) => category.trim() !== ''),
+    'Enter at least one category'
+  ),
+  reviewer: z.string().max(200).optional(),
+  note: z.string().max(2000).optional()
+});
+
+type ReviewFormValues = z.infer<typeof reviewFormSchema>;
+
+interface PolicyReviewFormProps {
+  policy: ReviewablePolicy;
+  defaultReviewer: string;
+  isSubmitting: boolean;
+  onSubmit: (review: PolicyReviewInput) => void;
+}
+
+export function PolicyReviewForm({ policy, defaultReviewer, isSubmitting, onSubmit }: PolicyReviewFormProps) {
+  const form = useForm<ReviewFormValues>({
+    resolver: zodResolver(reviewFormSchema),
+    defaultValues: {
+      econFreedom: policy.econFreedom === null ? '' : String(policy.econFreedom),
+      personalFreedom: policy.personalFreedom === null ? '' : String(policy.personalFreedom),
+      impact: policy.impact,
+      categories: policy.categories.join(', '),
+      reviewer: policy.review.reviewer ?? defaultReviewer,
+      note: policy.review.note ?? ''
+    }
+  });
+
+  const saveEdits = form.handleSubmit((values) => {
+    onSubmit({
+      responseId: policy.id,
+      status: 'edited',
+      reviewer: values.reviewer?.trim() || null,
+      note: values.note?.trim() || null,
+      econFreedom: values.econFreedom === '' ? null : Number(values.econFreedom),
+      personalFreedom: values.personalFreedom === '' ? null : Number(values.personalFreedom),
+      impact: values.impact,
+      categories: values.categories.split(',').map((category) => category.trim()).filter(Boolean)
+    });
+  });
+
+  // Approving, rejecting and resetting keep the model's values, so only the
+  // reviewer and note are checked; the correction fields may hold anything
+  const submitStatus = (status: Exclude<ReviewStatus, 'edited'>) => async () => {
+    form.clearErrors();
+    if (!(await form.trigger(['reviewer', 'note']))) return;
+
+    const { reviewer, note } = form.getValues();
+    onSubmit({
+      responseId: policy.id,
+      status,
+      reviewer: reviewer?.trim() || null,
+      note: note?.trim() || null
+    });
+  };
+
+  const original = policy.original;
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={saveEdits}>
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="econFreedom"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Economic freedom</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.5" min={-10} max={10} {...field} />
+                </FormControl>
+                <FormDescription>Model: {original.econFreedom ?? '–'}. Blank keeps the model's score.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="personalFreedom"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Personal freedom</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.5" min={-10} max={10} {...field} />
+                </FormControl>
+                <FormDescription>Model: {original.personalFreedom ?? '–'}. Blank keeps the model's score.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="impact"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Impact</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>Model: {original.impact ?? '–'}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="categories"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Categories</FormLabel>
+              <FormControl>
+                <Input placeholder="moderately right, moderately libertarian" {...field} />
+              </FormControl>
+              <FormDescription>
+                Comma-separated. Model: {original.categories.join(', ') || '–'}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="reviewer"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reviewer</FormLabel>
+              <FormControl>
+                <Input placeholder="Your name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Note</FormLabel>
+              <FormControl>
+                <Textarea rows={3} placeholder="Why was this changed or rejected?" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex flex-wrap gap-2 justify-end pt-2">
+          <Button type="button" variant="ghost" disabled={isSubmitting || policy.reviewStatus === 'pending'} onClick={submitStatus('pending')}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to pending
+          </Button>
+          <Button type="button" variant="outline" disabled={isSubmitting} onClick={submitStatus('rejected')}>
+            <X className="h-4 w-4 mr-2" />
+            Reject
+          </Button>
+          <Button type="button" variant="outline" disabled={isSubmitting} onClick={submitStatus('approved')}>
+            <Check className="h-4 w-4 mr-2" />
+            Approve as is
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            <Save className="h-4 w-4 mr-2" />
+            Save edits
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -1,31 +1,99 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { Pause, Play } from 'lucide-react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, ResponsiveContainer, usePlotArea } from 'recharts';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
-import { PoliticalParty, IDEOLOGY_COLORS } from '@/types/political';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { CompassPosition, PartyFamily, PartyPositionHistory, PoliticalParty } from '@/types/political';
+import { useIdeologies } from '@/hooks/use-ideologies';
+import { historyDates, positionAt } from '@/lib/partyHistory';
+import { IdeologyRuleSet, regionPolygon } from '@/lib/ideologyClassifier';
+import { PARTY_FAMILY_COLORS, PARTY_FAMILY_LABELS, convexHull } from '@/lib/partyFamilies';
 import { cn } from '@/lib/utils';
 
 interface PoliticalCompassProps {
   parties: PoliticalParty[];
   onPartyClick: (party: PoliticalParty) => void;
   selectedParty?: PoliticalParty;
+  comparedParties?: PoliticalParty[]; // highlighted like the selected party while picking parties to compare
+  showUncertainty?: boolean;
+  histories?: PartyPositionHistory[]; // enables the time slider when present
+  ideologyRegions?: IdeologyRuleSet | null; // shades each rule's region when present
+  showFamilyHulls?: boolean; // outlines each European party family's members across countries
+  userPosition?: CompassPosition | null; // the voting-advice quiz result, drawn as its own marker
   className?: string;
 }
 
+const AXIS_SPAN = 20;
+const PLAYBACK_INTERVAL_MS = 1200;
+
+type PlotArea = { x: number; y: number; width: number; height: number };
+
+const toPixel = (position: CompassPosition, plotArea: PlotArea) => ({
+  x: plotArea.x + ((position.econFreedom + AXIS_SPAN / 2) / AXIS_SPAN) * plotArea.width,
+  y: plotArea.y + ((AXIS_SPAN / 2 - position.personalFreedom) / AXIS_SPAN) * plotArea.height,
+});
+
+const formatInterval = (interval: [number, number] | null | undefined) =>
+  interval ? ` (${interval[0]} to ${interval[1]})` : '';
+
 export function PoliticalCompass({ 
   parties, 
   onPartyClick, 
   selectedParty,
+  comparedParties,
+  showUncertainty = false,
+  histories,
+  ideologyRegions,
+  showFamilyHulls = false,
+  userPosition,
   className 
 }: PoliticalCompassProps) {
+  const { getIdeology } = useIdeologies();
+  const dates = useMemo(() => historyDates(histories ?? []), [histories]);
+  const [snapshotIndex, setSnapshotIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const isTimelineActive = dates.length > 0;
+  const currentDate = isTimelineActive ? dates[Math.min(snapshotIndex, dates.length - 1)] : null;
+
+  // Start at the most recent snapshot whenever the set of dates changes
+  useEffect(() => {
+    setSnapshotIndex(Math.max(0, dates.length - 1));
+    setIsPlaying(false);
+  }, [dates]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (snapshotIndex >= dates.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setSnapshotIndex(index => index + 1), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, snapshotIndex, dates.length]);
+
+  const historyByParty = useMemo(
+    () => new Map((histories ?? []).map(history => [history.partyId, history])),
+    [histories]
+  );
+
   // Transform parties data for the scatter plot
-  const compassData = parties.map((party) => ({
-    x: party.econFreedom,
-    y: party.personalFreedom,
-    name: party.shortName,
-    party: party,
-    fill: IDEOLOGY_COLORS[party.ideology],
-  }));
+  const compassData = parties.map((party) => {
+    const history = historyByParty.get(party.id);
+    const snapshot = currentDate && history ? positionAt(history, currentDate) : null;
+
+    return {
+      x: snapshot?.position.econFreedom ?? party.econFreedom,
+      y: snapshot?.position.personalFreedom ?? party.personalFreedom,
+      name: party.shortName,
+      party: party,
+      fill: getIdeology(party.ideology).color,
+      trailFrom: snapshot?.previous ?? null,
+      isBeforeFirstSnapshot: snapshot?.isBeforeFirstSnapshot ?? false,
+    };
+  });
 
   const chartConfig = {
     x: {
@@ -40,6 +108,8 @@ export function PoliticalCompass({
     if (active && payload && payload.length) {
       const data = payload[0].payload;
       const party = data.party;
+      const econFreedom = isTimelineActive ? data.x : party.econFreedom;
+      const personalFreedom = isTimelineActive ? data.y : party.personalFreedom;
       
       return (
         <motion.div
@@ -49,13 +119,35 @@ export function PoliticalCompass({
         >
           <div className="font-semibold text-card-foreground">{party.name}</div>
           <div className="text-sm text-muted-foreground mt-1">
-            Economic: {party.econFreedom > 0 ? '+' : ''}{party.econFreedom}
+            Economic: {econFreedom > 0 ? '+' : ''}{econFreedom}
           </div>
           <div className="text-sm text-muted-foreground">
-            Personal: {party.personalFreedom > 0 ? '+' : ''}{party.personalFreedom}
+            Personal: {personalFreedom > 0 ? '+' : ''}{personalFreedom}
           </div>
-          <div className="text-xs text-muted-foreground mt-2 capitalize">
-            {party.ideology}
+          {data.isBeforeFirstSnapshot && (
+            <div className="text-xs text-muted-foreground mt-1">
+              Not yet analysed on {currentDate}
+            </div>
+          )}
+          {showUncertainty && party.uncertainty && (
+            <div className="text-xs text-muted-foreground mt-2 space-y-0.5">
+              <div>Based on {party.uncertainty.sampleSize} scored {party.uncertainty.sampleSize === 1 ? 'policy' : 'policies'}</div>
+              {party.uncertainty.econFreedom && (
+                <div>
+                  Economic SD {party.uncertainty.econFreedom.standardDeviation}
+                  {formatInterval(party.uncertainty.econFreedom.confidenceInterval)}
+                </div>
+              )}
+              {party.uncertainty.personalFreedom && (
+                <div>
+                  Personal SD {party.uncertainty.personalFreedom.standardDeviation}
+                  {formatInterval(party.uncertainty.personalFreedom.confidenceInterval)}
+                </div>
+              )}
+            </div>
+          )}
+          <div className="text-xs text-muted-foreground mt-2">
+            {getIdeology(party.ideology).label}
           </div>
         </motion.div>
       );
@@ -65,29 +157,62 @@ export function PoliticalCompass({
 
   const CustomDot = (props: any) => {
     const { cx, cy, payload } = props;
-    const isSelected = selectedParty?.id === payload?.party?.id;
-    
+    const plotArea = usePlotArea();
+    const isSelected = selectedParty?.slug === payload?.party?.slug
+      || (comparedParties ?? []).some(compared => compared.slug === payload?.party?.slug);
+    const party: PoliticalParty | undefined = payload?.party;
+    const ellipse = party?.positionSource === 'derived' && !isTimelineActive ? party.uncertainty?.ellipse : null;
+    const trailStart = payload?.trailFrom && plotArea ? toPixel(payload.trailFrom, plotArea) : null;
+
     return (
-      <motion.circle
-        cx={cx}
-        cy={cy}
-        r={isSelected ? 8 : 6}
-        fill={payload?.fill}
-        stroke={isSelected ? 'hsl(var(--primary))' : 'white'}
-        strokeWidth={isSelected ? 3 : 2}
-        className="cursor-pointer drop-shadow-sm"
-        onClick={() => payload?.party && onPartyClick(payload.party)}
-        initial={{ scale: 0 }}
-        animate={{ scale: 1 }}
-        transition={{ 
-          delay: Math.random() * 0.5,
-          type: "spring",
-          stiffness: 300,
-          damping: 20 
-        }}
-        whileHover={{ scale: 1.2 }}
-        whileTap={{ scale: 0.9 }}
-      />
+      <g opacity={payload?.isBeforeFirstSnapshot ? 0.3 : 1}>
+        {trailStart && <TrailArrow fromX={trailStart.x} fromY={trailStart.y} toX={cx} toY={cy} color={payload?.fill} />}
+        {showUncertainty && ellipse && plotArea && (
+          // Scale compass units to pixels (y grows downwards in SVG) so the
+          // rotation is applied in data space.
+          <g transform={`translate(${cx} ${cy}) scale(${plotArea.width / AXIS_SPAN} ${-plotArea.height / AXIS_SPAN}) rotate(${ellipse.angle})`}>
+            <motion.ellipse
+              cx={0}
+              cy={0}
+              rx={ellipse.radiusX}
+              ry={ellipse.radiusY}
+              fill={payload?.fill}
+              fillOpacity={isSelected ? 0.25 : 0.12}
+              stroke={payload?.fill}
+              strokeOpacity={0.6}
+              strokeWidth={1}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+              className="pointer-events-none"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ duration: 0.4 }}
+            />
+          </g>
+        )}
+        <motion.circle
+          cx={cx}
+          cy={cy}
+          r={isSelected ? 8 : 6}
+          fill={payload?.fill}
+          stroke={isSelected ? 'hsl(var(--primary))' : 'white'}
+          strokeWidth={isSelected ? 3 : 2}
+          className="cursor-pointer drop-shadow-sm"
+          onClick={() => payload?.party && onPartyClick(payload.party)}
+          // Timeline changes re-render the chart; skip the entrance pop so the
+          // dots glide between snapshots instead of re-appearing
+          initial={isTimelineActive ? false : { scale: 0 }}
+          animate={{ scale: 1 }}
+          transition={{ 
+            delay: Math.random() * 0.5,
+            type: "spring",
+            stiffness: 300,
+            damping: 20 
+          }}
+          whileHover={{ scale: 1.2 }}
+          whileTap={{ scale: 0.9 }}
+        />
+      </g>
     );
   };
 
@@ -134,6 +259,7 @@ export function PoliticalCompass({
               margin={{ top: 30, right: 30, bottom: 30, left: 30 }}
               data={compassData}
             >
+              {ideologyRegions && <IdeologyRegions ruleSet={ideologyRegions} />}
               <CartesianGrid 
                 strokeDasharray="3 3" 
                 stroke="hsl(var(--compass-grid))"
@@ -157,15 +283,206 @@ export function PoliticalCompass({
                 axisLine={{ stroke: 'hsl(var(--compass-axis))' }}
                 hide
               />
+              {showFamilyHulls && (
+                <FamilyHulls
+                  members={compassData.map(point => ({
+                    family: point.party.partyFamily,
+                    position: { econFreedom: point.x, personalFreedom: point.y },
+                  }))}
+                />
+              )}
               <ChartTooltip content={<CustomTooltip />} />
               <Scatter
                 dataKey="y"
                 shape={<CustomDot />}
               />
+              {userPosition && <UserMarker position={userPosition} />}
             </ScatterChart>
           </ResponsiveContainer>
         </ChartContainer>
       </div>
+
+      {isTimelineActive && (
+        <div className="flex items-center gap-4 mt-4 px-2">
+          <Button
+            variant="outline"
+            size="icon"
+            className="shrink-0 rounded-full"
+            disabled={dates.length < 2}
+            onClick={() => {
+              if (!isPlaying && snapshotIndex >= dates.length - 1) {
+                setSnapshotIndex(0);
+              }
+              setIsPlaying(playing => !playing);
+            }}
+            aria-label={isPlaying ? 'Pause history playback' : 'Play history'}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Slider
+            min={0}
+            max={Math.max(0, dates.length - 1)}
+            step={1}
+            value={[Math.min(snapshotIndex, dates.length - 1)]}
+            onValueChange={([value]) => {
+              setIsPlaying(false);
+              setSnapshotIndex(value);
+            }}
+            disabled={dates.length < 2}
+          />
+          <div className="shrink-0 text-sm font-medium text-compass-axis tabular-nums">
+            {currentDate}
+          </div>
+        </div>
+      )}
     </motion.div>
   );
+}
+
+function IdeologyRegions({ ruleSet }: { ruleSet: IdeologyRuleSet }) {
+  const plotArea = usePlotArea();
+  const { getIdeology } = useIdeologies();
+  if (!plotArea) return null;
+
+  const toPoints = (vertices: Array<[number, number]>) => vertices
+    .map(([econFreedom, personalFreedom]) => toPixel({ econFreedom, personalFreedom }, plotArea))
+    .map(({ x, y }) => `${x},${y}`)
+    .join(' ');
+
+  // Rules are first-match-wins, so draw them last-to-first to keep earlier
+  // rules on top where regions overlap
+  return (
+    <g className="pointer-events-none">
+      <rect
+        x={plotArea.x}
+        y={plotArea.y}
+        width={plotArea.width}
+        height={plotArea.height}
+        fill={getIdeology(ruleSet.fallback).color}
+        fillOpacity={0.08}
+      />
+      {[...ruleSet.rules].reverse().map((rule, index) => (
+        <polygon
+          key={`${rule.ideology}-${index}`}
+          points={toPoints(regionPolygon(rule.region))}
+          fill={getIdeology(rule.ideology).color}
+          fillOpacity={0.22}
+          stroke={getIdeology(rule.ideology).color}
+          strokeOpacity={0.6}
+          strokeWidth={1}
+        />
+      ))}
+    </g>
+  );
+}
+
+interface FamilyMember {
+  family: PartyFamily | null;
+  position: CompassPosition;
+}
+
+function FamilyHulls({ members }: { members: FamilyMember[] }) {
+  const plotArea = usePlotArea();
+  if (!plotArea) return null;
+
+  const positionsByFamily = new Map<PartyFamily, CompassPosition[]>();
+  for (const { family, position } of members) {
+    if (!family) continue;
+    positionsByFamily.set(family, [...(positionsByFamily.get(family) ?? []), position]);
+  }
+
+  return (
+    <g className="pointer-events-none">
+      {[...positionsByFamily.entries()]
+        .filter(([, positions]) => positions.length > 1)
+        .map(([family, positions]) => {
+          const color = PARTY_FAMILY_COLORS[family];
+          const hull = convexHull(positions).map(position => toPixel(position, plotArea));
+          const label = toPixel({
+            econFreedom: positions.reduce((sum, position) => sum + position.econFreedom, 0) / positions.length,
+            personalFreedom: Math.max(...positions.map(position => position.personalFreedom)),
+          }, plotArea);
+
+          return (
+            <g key={family}>
+              {hull.length > 2 ? (
+                <polygon
+                  points={hull.map(({ x, y }) => `${x},${y}`).join(' ')}
+                  fill={color}
+                  fillOpacity={0.12}
+                  stroke={color}
+                  strokeWidth={2}
+                  strokeLinejoin="round"
+                />
+              ) : (
+                <line x1={hull[0].x} y1={hull[0].y} x2={hull[hull.length - 1].x} y2={hull[hull.length - 1].y} stroke={color} strokeWidth={2} />
+              )}
+              <text x={label.x} y={label.y - 14} textAnchor="middle" fontSize={12} fontWeight={600} fill={color}>
+                {PARTY_FAMILY_LABELS[family]}
+              </text>
+            </g>
+          );
+        })}
+    </g>
+  );
+}
+
+function UserMarker({ position }: { position: CompassPosition }) {
+  const plotArea = usePlotArea();
+  if (!plotArea) return null;
+
+  const { x, y } = toPixel(position, plotArea);
+  const size = 10;
+
+  return (
+    <g className="pointer-events-none">
+      <motion.polygon
+        points={`${x},${y - size} ${x + size},${y} ${x},${y + size} ${x - size},${y}`}
+        fill="hsl(var(--foreground))"
+        stroke="hsl(var(--background))"
+        strokeWidth={2}
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+      />
+      <text x={x} y={y - size - 6} textAnchor="middle" fontSize={12} fontWeight={700} fill="hsl(var(--foreground))">
+        You
+      </text>
+    </g>
+  );
+}
+
+interface TrailArrowProps {
+  fromX: number;
+  fromY: number;
+  toX: number;
+  toY: number;
+  color: string;
+}
+
+function TrailArrow({ fromX, fromY, toX, toY, color }: TrailArrowProps) {
+  const length = Math.hypot(toX - fromX, toY - fromY);
+  const dotClearance = 8;
+  if (length <= dotClearance * 1.5) return null;
+
+  // Stop the line at the dot's edge and draw a small arrowhead there
+  const unitX = (toX - fromX) / length;
+  const unitY = (toY - fromY) / length;
+  const tipX = toX - unitX * dotClearance;
+  const tipY = toY - unitY * dotClearance;
+  const headLength = 7;
+  const headWidth = 4;
+  const baseX = tipX - unitX * headLength;
+  const baseY = tipY - unitY * headLength;
+  const head = [
+    `${tipX},${tipY}`,
+    `${baseX - unitY * headWidth},${baseY + unitX * headWidth}`,
+    `${baseX + unitY * headWidth},${baseY - unitX * headWidth}`,
+  ].join(' ');
+
+  return (
+    <g className="pointer-events-none" opacity={0.7}>
+      <line x1={fromX} y1={fromY} x2={baseX} y2={baseY} stroke={color} strokeWidth={2} strokeDasharray="3 3" />
+      <polygon points={head} fill={color} />
+    </g>
+  );
 }
\ No newline at end of file
@@ -1,23 +1,31 @@
 import initSqlJs, { Database } from 'sql.js';
-import { Country, PoliticalParty, Ideology, PolicyAnalysis } from '@/types/political';
+import {
+  AnalysisErrorsResponse,
+  Country,
+  IdeologyDefinition,
+  PoliticalParty,
+  PolicyAnalysis,
+  PolicyReviewInput,
+  PositionSource,
+  PartyPositionHistory,
+  QuizQuestion,
+  ReviewStatus,
+  ReviewablePolicy
+} from '@/types/political';
+import { DEFAULT_POSITION_SOURCE } from '@/lib/partyPositions';
+import { PartyRepository } from '@/data/partyRepository';
+import { createSqlJsDriver } from '@/data/sqlDrivers';
+import { assertSchemaUpToDate } from '@/data/migrations';
+import type { RetryFailedChunksResult } from '@/scoring/retry';
 
 let sqliteDb: Database | null = null;
 let sqliteInitPromise: Promise<Database> | null = null;
 
-const COUNTRY_FLAGS: Record<string, string> = {
-  'Czech Republic': '🇨🇿',
-  'Slovakia': '🇸🇰',
-  'Poland': '🇵🇱',
-  'Germany': '🇩🇪',
-  'Austria': '🇦🇹',
-  'Hungary': '🇭🇺',
-  'United States': '🇺🇸',
-  'United Kingdom': '🇬🇧',
-  'France': '🇫🇷',
-};
-
 const isBrowserEnvironment = typeof window !== 'undefined';
 
+// The same publication rule as the API; vite.config.ts exposes the variable
+const reviewedOnly = import.meta.env.PUBLISH_REVIEWED_POLICIES_ONLY === 'true';
+
 async function ensureSqlite(): Promise<Database> {
   if (sqliteDb) {
     return sqliteDb;
@@ -35,7 +43,9 @@ async function ensureSqlite(): Promise<Database> {
       }
 
       const buffer = await response.arrayBuffer();
-      sqliteDb = new SQL.Database(new Uint8Array(buffer));
+      const db = new SQL.Database(new Uint8Array(buffer));
+      await assertSchemaUpToDate(createSqlJsDriver(db));
+      sqliteDb = db;
       console.log('SQLite database initialized successfully');
       return sqliteDb;
     })();
@@ -50,70 +60,8 @@ async function ensureSqlite(): Promise<Database> {
   }
 }
 
-function determineIdeology(leftRight: number, authLib: number): Ideology {
-  if (Math.abs(leftRight) < 1 && Math.abs(authLib) < 1) {
-    return 'centrist';
-  }
-
-  if (leftRight < -2 && authLib > 2) {
-    return 'liberal';
-  }
-
-  if (leftRight > 2 && authLib < -2) {
-    return 'conservative';
-  }
-
-  if (leftRight > 2 && authLib > 2) {
-    return 'libertarian';
-  }
-
-  if (leftRight < -2 && authLib < -2) {
-    return 'authoritarian';
-  }
-
-  if (leftRight < -3) {
-    return 'socialist';
-  }
-
-  if (authLib > 3) {
-    return 'green';
-  }
-
-  return 'centrist';
-}
-
-interface DBParty {
-  id: string;
-  name: string;
-  type: string;
-  country: string;
-  founded: number | null;
-  website: string | null;
-  econ_freedom: number | null;
-  personal_freedom: number | null;
-}
-
-function transformDBPartyToAppParty(dbParty: DBParty): PoliticalParty {
-  const econFreedom = dbParty.econ_freedom ?? 0;
-  const personalFreedom = dbParty.personal_freedom ?? 0;
-  const ideology = determineIdeology(econFreedom, personalFreedom);
-
-  const nameWords = dbParty.name.split(' ');
-  const shortName = nameWords.length > 2 ? nameWords[0] : nameWords.slice(0, 2).join(' ');
-
-  return {
-    id: dbParty.id,
-    name: dbParty.name,
-    shortName,
-    econFreedom,
-    personalFreedom,
-    ideology,
-    description: `${dbParty.name} is a ${dbParty.type} in ${dbParty.country.toUpperCase()}.`,
-    website: dbParty.website ?? undefined,
-    logo: undefined,
-    founded: dbParty.founded ?? undefined,
-    support: undefined
-  };
+async function getFallbackRepository(): Promise<PartyRepository> {
+  return new PartyRepository(createSqlJsDriver(await ensureSqlite()));
 }
 
 async function fetchFromApi<T>(path: string): Promise<T | null> {
@@ -136,25 +84,8 @@ async function fetchFromApi<T>(path: string): Promise<T | null> {
 
 export async function fetchCountriesFallback(): Promise<Country[]> {
   try {
-    const db = await ensureSqlite();
-    const result = db.exec(`
-      SELECT DISTINCT country
-      FROM parties
-      ORDER BY country
-    `);
-
-    if (result.length === 0 || result[0].values.length === 0) {
-      return [];
-    }
-
-    return result[0].values
-      .map((row) => row[0] as string | null)
-      .filter((name): name is string => typeof name === 'string' && name.length > 0)
-      .map((name) => ({
-        code: name,
-        name,
-        flag: COUNTRY_FLAGS[name]
-      }));
+    const repository = await getFallbackRepository();
+    return await repository.fetchCountries();
   } catch (error) {
     console.error('Error fetching countries from SQLite fallback:', error);
     return [];
@@ -170,109 +101,85 @@ export async function fetchCountries(): Promise<Country[]> {
   return fetchCountriesFallback();
 }
 
-export async function fetchPartiesFallback(countryCode: string): Promise<PoliticalParty[]> {
+export async function fetchIdeologiesFallback(): Promise<IdeologyDefinition[]> {
   try {
-    const db = await ensureSqlite();
-    const partiesResult = db.exec(`
-      SELECT id, name, type, country, founded, website, econ_freedom, personal_freedom
-      FROM parties
-      WHERE country = ?
-      ORDER BY name
-    `, [countryCode]);
-
-    if (partiesResult.length === 0 || partiesResult[0].values.length === 0) {
-      return [];
-    }
+    const repository = await getFallbackRepository();
+    return await repository.fetchIdeologies();
+  } catch (error) {
+    console.error('Error fetching ideologies from SQLite fallback:', error);
+    return [];
+  }
+}
 
-    const parties: PoliticalParty[] = [];
-
-    for (const row of partiesResult[0].values) {
-      const dbParty: DBParty = {
-        id: row[0] as string,
-        name: row[1] as string,
-        type: row[2] as string,
-        country: row[3] as string,
-        founded: row[4] as number | null,
-        website: row[5] as string | null,
-        econ_freedom: row[6] as number | null,
-        personal_freedom: row[7] as number | null,
-      };
-
-      parties.push(transformDBPartyToAppParty(dbParty));
-    }
+export async function fetchIdeologies(): Promise<IdeologyDefinition[]> {
+  const apiData = await fetchFromApi<IdeologyDefinition[]>('/api/ideologies');
+  if (apiData) {
+    return apiData;
+  }
+
+  return fetchIdeologiesFallback();
+}
 
-    return parties;
+export async function fetchQuizQuestionsFallback(countryCodes: string[]): Promise<QuizQuestion[]> {
+  try {
+    const repository = await getFallbackRepository();
+    return await repository.fetchQuizQuestions(countryCodes);
   } catch (error) {
-    console.error(`Error fetching parties for ${countryCode} from SQLite fallback:`, error);
+    console.error('Error fetching quiz questions from SQLite fallback:', error);
     return [];
   }
 }
 
-export async function fetchParties(countryCode: string): Promise<PoliticalParty[]> {
-  const apiUrl = `/api/parties?country=${encodeURIComponent(countryCode)}`;
-  const apiData = await fetchFromApi<PoliticalParty[]>(apiUrl);
+/** Questions asked in every country plus those of the given countries. */
+export async function fetchQuizQuestions(countryCodes: string[]): Promise<QuizQuestion[]> {
+  const params = new URLSearchParams();
+  countryCodes.forEach((code) => params.append('country', code));
+  const apiData = await fetchFromApi<QuizQuestion[]>(`/api/quiz-questions?${params}`);
   if (apiData) {
     return apiData;
   }
 
-  return fetchPartiesFallback(countryCode);
+  return fetchQuizQuestionsFallback(countryCodes);
 }
 
-export async function fetchPartyPoliciesFallback(partyId: string): Promise<PolicyAnalysis[]> {
+export async function fetchPartiesFallback(
+  countryCodes: string | string[],
+  positionSource: PositionSource = DEFAULT_POSITION_SOURCE
+): Promise<PoliticalParty[]> {
   try {
-    const db = await ensureSqlite();
-    const result = db.exec(`
-      SELECT
-        id, party_id, country, timestamp, chunk_index, policy_id,
-        policy_text, short_name, impact, impact_explanation,
-        category, explanation, econ_freedom, personal_freedom, weight, error
-      FROM llm_responses
-      WHERE party_id = ? AND policy_text IS NOT NULL AND error IS NULL
-      ORDER BY chunk_index, policy_id
-    `, [partyId]);
-
-    if (result.length === 0 || result[0].values.length === 0) {
-      return [];
-    }
-
-    const policies: PolicyAnalysis[] = [];
+    const repository = await getFallbackRepository();
+    return await repository.fetchParties(countryCodes, positionSource, { reviewedOnly });
+  } catch (error) {
+    console.error(`Error fetching parties for ${[countryCodes].flat().join(', ')} from SQLite fallback:`, error);
+    return [];
+  }
+}
 
-    for (const row of result[0].values) {
-      const policyText = row[6] as string | null;
-      const shortName = row[7] as string | null;
-      const impact = row[8] as string | null;
-      const impactExplanation = row[9] as string | null;
-      const categoryJson = row[10] as string | null;
-      const explanation = row[11] as string | null;
-      const econFreedom = row[12] as number | null;
-      const personalFreedom = row[13] as number | null;
+/** Parties of one or more countries in a single request. */
+export async function fetchParties(countryCodes: string | string[], positionSource?: PositionSource): Promise<PoliticalParty[]> {
+  const codes = [countryCodes].flat();
+  if (codes.length === 0) {
+    return [];
+  }
 
-      if (!policyText || !shortName) {
-        continue;
-      }
+  const params = new URLSearchParams();
+  codes.forEach((code) => params.append('country', code));
+  if (positionSource) {
+    params.set('positionSource', positionSource);
+  }
 
-      let categories: string[] = [];
-      if (categoryJson) {
-        try {
-          const parsed = JSON.parse(categoryJson);
-          categories = Array.isArray(parsed) ? parsed : [];
-        } catch (e) {
-          console.warn('Failed to parse category JSON:', categoryJson);
-        }
-      }
+  const apiData = await fetchFromApi<PoliticalParty[]>(`/api/parties?${params.toString()}`);
+  if (apiData) {
+    return apiData;
+  }
 
-      policies.push({
-        policyText,
-        shortName,
-        impact: (impact as 'high' | 'medium' | 'low') || 'medium',
-        categories,
-        explanation: explanation || impactExplanation || '',
-        econFreedom,
-        personalFreedom
-      });
-    }
+  return fetchPartiesFallback(codes, positionSource);
+}
 
-    return policies;
+export async function fetchPartyPoliciesFallback(partyId: string): Promise<PolicyAnalysis[]> {
+  try {
+    const repository = await getFallbackRepository();
+    return await repository.fetchPartyPolicies(partyId, { reviewedOnly });
   } catch (error) {
     console.error(`Error fetching policies for party ${partyId} from SQLite fallback:`, error);
     return [];
@@ -289,4 +196,82 @@ export async function fetchPartyPolicies(partyId: string): Promise<PolicyAnalysi
   return fetchPartyPoliciesFallback(partyId);
 }
 
+export async function fetchPartyHistoriesFallback(partyIds: string[]): Promise<PartyPositionHistory[]> {
+  try {
+    const repository = await getFallbackRepository();
+    return await repository.fetchPartyHistories(partyIds, { reviewedOnly });
+  } catch (error) {
+    console.error('Error fetching party history from SQLite fallback:', error);
+    return [];
+  }
+}
+
+export async function fetchPartyHistories(partyIds: string[]): Promise<PartyPositionHistory[]> {
+  if (partyIds.length === 0) {
+    return [];
+  }
+
+  const params = new URLSearchParams();
+  partyIds.forEach((partyId) => params.append('partyId', partyId));
+  const apiData = await fetchFromApi<PartyPositionHistory[]>(`/api/parties/history?${params.toString()}`);
+  if (apiData) {
+    return apiData;
+  }
+
+  return fetchPartyHistoriesFallback(partyIds);
+}
+
+// Review and admin requests go to the API only: the bundled SQLite file is read-only
+// and reviewers need to see failures instead of silently stale data.
+async function reviewApiRequest<T>(path: string, token: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    cache: 'no-store',
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${token}`,
+      ...(init.body ? { 'Content-Type': 'application/json' } : {})
+    }
+  });
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    const details = Array.isArray(payload?.details) ? `: ${payload.details.join('; ')}` : '';
+    throw new Error(`${payload?.error ?? response.statusText}${details}`);
+  }
+
+  return payload as T;
+}
+
+export async function fetchReviewQueue(partyId: string, status: ReviewStatus | null, token: string): Promise<ReviewablePolicy[]> {
+  const params = new URLSearchParams({ partyId });
+  if (status) {
+    params.set('status', status);
+  }
+
+  return reviewApiRequest<ReviewablePolicy[]>(`/api/reviews?${params.toString()}`, token);
+}
+
+export async function submitPolicyReview(review: PolicyReviewInput, token: string): Promise<void> {
+  await reviewApiRequest<{ ok: true }>('/api/reviews', token, {
+    method: 'POST',
+    body: JSON.stringify(review)
+  });
+}
+
+export async function fetchAnalysisErrors(partyId: string | null, token: string): Promise<AnalysisErrorsResponse> {
+  const query = partyId ? `?${new URLSearchParams({ partyId }).toString()}` : '';
+  return reviewApiRequest<AnalysisErrorsResponse>(`/api/analysis-errors${query}`, token);
+}
+
+export async function retryAnalysisErrors(
+  request: { responseIds: number[] | null; partyId: string | null; provider: string },
+  token: string
+): Promise<RetryFailedChunksResult> {
+  return reviewApiRequest<RetryFailedChunksResult>('/api/analysis-errors', token, {
+    method: 'POST',
+    body: JSON.stringify(request)
+  });
+}
+
 export const COUNTRIES = fetchCountries;
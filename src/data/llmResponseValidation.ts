@@ -0,0 +1,150 @@
+import type { LLMPolicyResponse } from '../types/political';
+import { parsePolicyImpact } from '../lib/partyPositions.js';
+
+// Validation for llm_responses rows coming from outside the app (ingestion
+// files, scoring pipelines). Accepts values as they arrive from JSON or CSV,
+// so numeric fields may be numbers or numeric strings and empty strings are
+// treated as null.
+
+export type ValidationResult =
+  | { ok: true; value: LLMPolicyResponse }
+  | { ok: false; errors: string[] };
+
+const AXIS_MIN = -10;
+const AXIS_MAX = 10;
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+// Returns NaN for values that are present but not numeric
+function readNumber(value: unknown): number | null {
+  if (isBlank(value)) {
+    return null;
+  }
+
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : Number.NaN;
+}
+
+function readString(value: unknown): string | null {
+  if (isBlank(value)) {
+    return null;
+  }
+
+  return typeof value === 'string' ? value : String(value);
+}
+
+/**
+ * Validates one raw record against the llm_responses schema and returns the
+ * normalised row, or every problem found with it.
+ */
+export function validateLLMResponse(record: Record<string, unknown>): ValidationResult {
+  const errors: string[] = [];
+
+  const integerField = (field: string, { required, min }: { required: boolean; min: number }): number | null => {
+    const value = readNumber(record[field]);
+    if (value === null) {
+      if (required) errors.push(`${field} is required`);
+      return null;
+    }
+    if (Number.isNaN(value) || !Number.isInteger(value) || value < min) {
+      errors.push(`${field} must be an integer >= ${min}, got ${JSON.stringify(record[field])}`);
+      return null;
+    }
+    return value;
+  };
+
+  const rangeField = (field: string, min: number, max: number): number | null => {
+    const value = readNumber(record[field]);
+    if (value === null) {
+      return null;
+    }
+    if (Number.isNaN(value) || value < min || value > max) {
+      errors.push(`${field} must be a number between ${min} and ${max}, got ${JSON.stringify(record[field])}`);
+      return null;
+    }
+    return value;
+  };
+
+  const id = integerField('id', { required: true, min: 1 });
+  const chunkIndex = integerField('chunk_index', { required: true, min: 0 });
+  const policyId = integerField('policy_id', { required: false, min: 0 });
+
+  const partyId = readString(record.party_id);
+  if (!partyId) {
+    errors.push('party_id is required');
+  }
+
+  const timestamp = readString(record.timestamp);
+  if (!timestamp) {
+    errors.push('timestamp is required');
+  } else if (Number.isNaN(new Date(timestamp).getTime())) {
+    errors.push(`timestamp is not a valid date: ${JSON.stringify(timestamp)}`);
+  }
+
+  const rawImpact = readString(record.impact);
+  const impact = parsePolicyImpact(rawImpact);
+  if (rawImpact !== null && impact === null) {
+    errors.push(`impact must be one of high, medium, low, got ${JSON.stringify(rawImpact)}`);
+  }
+
+  let category: string | null = null;
+  const rawCategory = record.category;
+  if (!isBlank(rawCategory)) {
+    let parsed: unknown = rawCategory;
+    if (typeof rawCategory === 'string') {
+      try {
+        parsed = JSON.parse(rawCategory);
+      } catch {
+        parsed = undefined;
+      }
+    }
+
+    if (Array.isArray(parsed) && parsed.every((entry) => typeof entry === 'string')) {
+      category = JSON.stringify(parsed);
+    } else {
+      errors.push(`category must be a JSON array of strings, got ${JSON.stringify(rawCategory)}`);
+    }
+  }
+
+  const econFreedom = rangeField('econ_freedom', AXIS_MIN, AXIS_MAX);
+  const personalFreedom = rangeField('personal_freedom', AXIS_MIN, AXIS_MAX);
+  const weight = rangeField('weight', 0, Number.MAX_SAFE_INTEGER);
+
+  const error = readString(record.error);
+  const policyText = readString(record.policy_text);
+  const shortName = readString(record.short_name);
+  if (error === null) {
+    if (!policyText) errors.push('policy_text is required unless error is set');
+    if (!shortName) errors.push('short_name is required unless error is set');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: id!,
+      party_id: partyId!,
+      country: readString(record.country),
+      timestamp: new Date(timestamp!).toISOString(),
+      chunk_index: chunkIndex!,
+      policy_id: policyId,
+      policy_text: policyText,
+      short_name: shortName,
+      impact,
+      impact_explanation: readString(record.impact_explanation),
+      category,
+      explanation: readString(record.explanation),
+      econ_freedom: econFreedom,
+      personal_freedom: personalFreedom,
+      weight,
+      error,
+      run_id: readString(record.run_id),
+      chunk_text: error === null ? null : readString(record.chunk_text)
+    }
+  };
+}
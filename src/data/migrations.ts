@@ -0,0 +1,544 @@
+import { SqlDialect, SqlDriver } from './sqlDrivers.js';
+
+// Versioned schema migrations for both SQLite and Postgres. Every database the
+// app serves from must record the latest version in `schema_version`; run
+// `npm run db:migrate` to bring a database up to date.
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (driver: SqlDriver) => Promise<void>;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+}
+
+async function tableExists(driver: SqlDriver, table: string): Promise<boolean> {
+  const rows = driver.dialect === 'postgres'
+    ? await driver.query(`SELECT table_name AS name FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = ?`, [table])
+    : await driver.query(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`, [table]);
+  return rows.length > 0;
+}
+
+export async function listColumns(driver: SqlDriver, table: string): Promise<string[]> {
+  const rows = driver.dialect === 'postgres'
+    ? await driver.query(`SELECT column_name AS name FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = ?`, [table])
+    : await driver.query(`SELECT name FROM pragma_table_info(?)`, [table]);
+  return rows.map((row) => String(row.name));
+}
+
+// llm_responses columns a policy review judges; see migration 12
+const REVIEWED_RESPONSE_COLUMNS = [
+  'policy_text', 'short_name', 'impact', 'impact_explanation', 'category',
+  'explanation', 'econ_freedom', 'personal_freedom', 'weight', 'error'
+];
+
+function autoIncrementPrimaryKey(dialect: SqlDialect): string {
+  return dialect === 'postgres' ? 'SERIAL PRIMARY KEY' : 'INTEGER PRIMARY KEY AUTOINCREMENT';
+}
+
+function realType(dialect: SqlDialect): string {
+  return dialect === 'postgres' ? 'DOUBLE PRECISION' : 'REAL';
+}
+
+// [alpha-2, alpha-3, name, UN M49 region, EU member, electoral system for the national parliament]
+const COUNTRY_SEED: Array<[string, string, string, string, boolean, string]> = [
+  ['AT', 'AUT', 'Austria', 'Western Europe', true, 'proportional'],
+  ['BE', 'BEL', 'Belgium', 'Western Europe', true, 'proportional'],
+  ['BG', 'BGR', 'Bulgaria', 'Eastern Europe', true, 'proportional'],
+  ['HR', 'HRV', 'Croatia', 'Southern Europe', true, 'proportional'],
+  ['CY', 'CYP', 'Cyprus', 'Western Asia', true, 'proportional'],
+  ['CZ', 'CZE', 'Czech Republic', 'Eastern Europe', true, 'proportional'],
+  ['DK', 'DNK', 'Denmark', 'Northern Europe', true, 'proportional'],
+  ['EE', 'EST', 'Estonia', 'Northern Europe', true, 'proportional'],
+  ['FI', 'FIN', 'Finland', 'Northern Europe', true, 'proportional'],
+  ['FR', 'FRA', 'France', 'Western Europe', true, 'majoritarian'],
+  ['DE', 'DEU', 'Germany', 'Western Europe', true, 'mixed'],
+  ['GR', 'GRC', 'Greece', 'Southern Europe', true, 'proportional'],
+  ['HU', 'HUN', 'Hungary', 'Eastern Europe', true, 'mixed'],
+  ['IE', 'IRL', 'Ireland', 'Northern Europe', true, 'proportional'],
+  ['IT', 'ITA', 'Italy', 'Southern Europe', true, 'mixed'],
+  ['LV', 'LVA', 'Latvia', 'Northern Europe', true, 'proportional'],
+  ['LT', 'LTU', 'Lithuania', 'Northern Europe', true, 'mixed'],
+  ['LU', 'LUX', 'Luxembourg', 'Western Europe', true, 'proportional'],
+  ['MT', 'MLT', 'Malta', 'Southern Europe', true, 'proportional'],
+  ['NL', 'NLD', 'Netherlands', 'Western Europe', true, 'proportional'],
+  ['PL', 'POL', 'Poland', 'Eastern Europe', true, 'proportional'],
+  ['PT', 'PRT', 'Portugal', 'Southern Europe', true, 'proportional'],
+  ['RO', 'ROU', 'Romania', 'Eastern Europe', true, 'proportional'],
+  ['SK', 'SVK', 'Slovakia', 'Eastern Europe', true, 'proportional'],
+  ['SI', 'SVN', 'Slovenia', 'Southern Europe', true, 'proportional'],
+  ['ES', 'ESP', 'Spain', 'Southern Europe', true, 'proportional'],
+  ['SE', 'SWE', 'Sweden', 'Northern Europe', true, 'proportional'],
+  ['GB', 'GBR', 'United Kingdom', 'Northern Europe', false, 'majoritarian'],
+  ['NO', 'NOR', 'Norway', 'Northern Europe', false, 'proportional'],
+  ['CH', 'CHE', 'Switzerland', 'Western Europe', false, 'proportional'],
+  ['US', 'USA', 'United States', 'Northern America', false, 'majoritarian'],
+  ['CA', 'CAN', 'Canada', 'Northern America', false, 'majoritarian'],
+  ['JP', 'JPN', 'Japan', 'Eastern Asia', false, 'mixed']
+];
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline parties and llm_responses tables',
+    async up(driver) {
+      const real = realType(driver.dialect);
+      await driver.query(`
+        CREATE TABLE IF NOT EXISTS parties (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          country TEXT NOT NULL,
+          founded INTEGER,
+          website TEXT,
+          econ_freedom ${real},
+          personal_freedom ${real}
+        )
+      `);
+
+      // Existing databases keep their llm_responses table as is; migration 2
+      // reconciles its policy text column.
+      if (await tableExists(driver, 'llm_responses')) {
+        return;
+      }
+
+      await driver.query(`
+        CREATE TABLE llm_responses (
+          id ${autoIncrementPrimaryKey(driver.dialect)},
+          party_id TEXT NOT NULL,
+          country TEXT,
+          timestamp ${driver.dialect === 'postgres' ? 'TIMESTAMPTZ' : 'TEXT'},
+          chunk_index INTEGER,
+          policy_id INTEGER,
+          policy_text TEXT,
+          short_name TEXT,
+          impact TEXT,
+          impact_explanation TEXT,
+          category TEXT,
+          explanation TEXT,
+          econ_freedom ${real},
+          personal_freedom ${real},
+          weight ${real},
+          error TEXT
+        )
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'store policy text in llm_responses.policy_text',
+    async up(driver) {
+      const columns = await listColumns(driver, 'llm_responses');
+      const hasPolicy = columns.includes('policy');
+      const hasPolicyText = columns.includes('policy_text');
+
+      if (hasPolicy && !hasPolicyText) {
+        await driver.query(`ALTER TABLE llm_responses RENAME COLUMN policy TO policy_text`);
+      } else if (hasPolicy && hasPolicyText) {
+        await driver.query(`UPDATE llm_responses SET policy_text = policy WHERE policy_text IS NULL`);
+        await driver.query(`ALTER TABLE llm_responses DROP COLUMN policy`);
+      } else if (!hasPolicyText) {
+        await driver.query(`ALTER TABLE llm_responses ADD COLUMN policy_text TEXT`);
+      }
+    }
+  },
+  {
+    version: 3,
+    name: 'analysis_runs provenance for llm_responses',
+    async up(driver) {
+      await driver.query(`
+        CREATE TABLE IF NOT EXISTS analysis_runs (
+          id TEXT PRIMARY KEY,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          prompt_version TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          description TEXT
+        )
+      `);
+
+      if (!(await listColumns(driver, 'llm_responses')).includes('run_id')) {
+        await driver.query(`ALTER TABLE llm_responses ADD COLUMN run_id TEXT REFERENCES analysis_runs (id)`);
+      }
+    }
+  },
+  {
+    version: 4,
+    name: 'policy_reviews for human review of llm_responses',
+    async up(driver) {
+      const real = realType(driver.dialect);
+      await driver.query(`
+        CREATE TABLE IF NOT EXISTS policy_reviews (
+          response_id INTEGER PRIMARY KEY REFERENCES llm_responses (id) ON DELETE CASCADE,
+          status TEXT NOT NULL CHECK (status IN ('approved', 'rejected', 'edited')),
+          econ_freedom ${real},
+          personal_freedom ${real},
+          impact TEXT,
+          category TEXT,
+          reviewer TEXT,
+          note TEXT,
+          reviewed_at TEXT NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: 'keep the source text of failed chunks for retries',
+    async up(driver) {
+      if (!(await listColumns(driver, 'llm_responses')).includes('chunk_text')) {
+        await driver.query(`ALTER TABLE llm_responses ADD COLUMN chunk_text TEXT`);
+      }
+    }
+  },
+  {
+    version: 6,
+    name: 'external ideology labels on parties',
+    async up(driver) {
+      if (!(await listColumns(driver, 'parties')).includes('external_ideology')) {
+        await driver.query(`ALTER TABLE parties ADD COLUMN external_ideology TEXT`);
+      }
+    }
+  },
+  {
+    version: 7,
+    name: 'ideologies taxonomy table',
+    async up(driver) {
+      await driver.query(`
+        CREATE TABLE IF NOT EXISTS ideologies (
+          id TEXT PRIMARY KEY,
+          label TEXT NOT NULL,
+          color TEXT NOT NULL,
+          description TEXT,
+          sort_order INTEGER NOT NULL DEFAULT 0
+        )
+      `);
+
+      // The ideologies the app shipped with, keeping their theme colours
+      const seed: Array<[string, string, string]> = [
+        ['liberal', 'Liberal', 'Socially progressive, favouring civil liberties alongside a regulated market.'],
+        ['conservative', 'Conservative', 'Market-oriented and socially traditional, favouring order and continuity.'],
+        ['libertarian', 'Libertarian', 'Minimal state involvement in both the economy and personal life.'],
+        ['authoritarian', 'Authoritarian', 'Strong state control over the economy and personal life.'],
+        ['centrist', 'Centrist', 'Moderate positions close to the centre on both axes.'],
+        ['socialist', 'Socialist', 'Collective or state ownership and extensive redistribution.'],
+        ['green', 'Green', 'Environmental protection and strong personal freedoms.']
+      ];
+      for (const [index, [id, label, description]] of seed.entries()) {
+        await driver.query(
+          `INSERT INTO ideologies (id, label, color, description, sort_order) VALUES (?, ?, ?, ?, ?) ON CONFLICT (id) DO NOTHING`,
+          [id, label, `hsl(var(--ideology-${id}))`, description, index + 1]
+        );
+      }
+    }
+  },
+  {
+    version: 8,
+    name: 'European party family on parties',
+    async up(driver) {
+      if (!(await listColumns(driver, 'parties')).includes('party_family')) {
+        await driver.query(`ALTER TABLE parties ADD COLUMN party_family TEXT`);
+      }
+    }
+  },
+  {
+    version: 9,
+    name: 'countries table referenced by parties.country',
+    async up(driver) {
+      const real = realType(driver.dialect);
+      await driver.query(`
+        CREATE TABLE IF NOT EXISTS countries (
+          code TEXT PRIMARY KEY,
+          alpha3 TEXT NOT NULL UNIQUE,
+          name TEXT NOT NULL,
+          region TEXT,
+          eu_member INTEGER NOT NULL DEFAULT 0 CHECK (eu_member IN (0, 1)),
+          electoral_system TEXT CHECK (electoral_system IN ('proportional', 'majoritarian', 'mixed'))
+        )
+      `);
+
+      for (const [code, alpha3, name, region, euMember, electoralSystem] of COUNTRY_SEED) {
+        await driver.query(
+          `INSERT INTO countries (code, alpha3, name, region, eu_member, electoral_system) VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT (code) DO NOTHING`,
+          [code, alpha3, name, region, euMember ? 1 : 0, electoralSystem]
+        );
+      }
+
+      // parties.country held country names; switch every value to the
+      // alpha-2 code, accepting names and alpha-2/3 codes in any case
+      const countries = await driver.query(`SELECT code, alpha3, name FROM countries`);
+      const codeByKey = new Map<string, string>();
+      for (const country of countries) {
+        for (const key of [country.code, country.alpha3, country.name]) {
+          codeByKey.set(String(key).toLowerCase(), String(country.code));
+        }
+      }
+
+      const values = (await driver.query(`SELECT DISTINCT country FROM parties`)).map((row) => String(row.country));
+      const unknown = values.filter((value) => !codeByKey.has(value.toLowerCase()));
+      if (unknown.length > 0) {
+        throw new Error(`parties.country has values that match no known country: ${unknown.join(', ')}. Change them to a country name or ISO 3166 code from the seed in migration 9 and run the migration again.`);
+      }
+
+      for (const value of values) {
+        const code = codeByKey.get(value.toLowerCase())!;
+        if (code === value) continue;
+        await driver.query(`UPDATE parties SET country = ? WHERE country = ?`, [code, value]);
+        await driver.query(`UPDATE llm_responses SET country = ? WHERE country = ?`, [code, value]);
+      }
+
+      if (driver.dialect === 'postgres') {
+        await driver.query(`ALTER TABLE parties ADD CONSTRAINT parties_country_fkey FOREIGN KEY (country) REFERENCES countries (code)`);
+        return;
+      }
+
+      // SQLite can't add a foreign key to an existing column, so rebuild the table
+      await driver.query(`
+        CREATE TABLE parties_new (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          country TEXT NOT NULL REFERENCES countries (code),
+          founded INTEGER,
+          website TEXT,
+          econ_freedom ${real},
+          personal_freedom ${real},
+          external_ideology TEXT,
+          party_family TEXT
+        )
+      `);
+      await driver.query(`
+        INSERT INTO parties_new (id, name, type, country, founded, website, econ_freedom, personal_freedom, external_ideology, party_family)
+        SELECT id, name, type, country, founded, website, econ_freedom, personal_freedom, external_ideology, party_family
+        FROM parties
+      `);
+      await driver.query(`DROP TABLE parties`);
+      await driver.query(`ALTER TABLE parties_new RENAME TO parties`);
+    }
+  },
+  {
+    version: 10,
+    name: 'voting advice quiz questions',
+    async up(driver) {
+      const real = realType(driver.dialect);
+      await driver.query(`
+        CREATE TABLE IF NOT EXISTS quiz_questions (
+          id TEXT PRIMARY KEY,
+          country TEXT REFERENCES countries (code),
+          statement TEXT NOT NULL,
+          econ_direction ${real} NOT NULL DEFAULT 0 CHECK (econ_direction BETWEEN -1 AND 1),
+          personal_direction ${real} NOT NULL DEFAULT 0 CHECK (personal_direction BETWEEN -1 AND 1),
+          sort_order INTEGER NOT NULL DEFAULT 0
+        )
+      `);
+
+      // General statements asked in every country (country NULL). Agreeing
+      // moves the user in the direction given on each axis.
+      const seed: Array<[string, string, number, number]> = [
+        ['state-owned-industries', 'Key industries such as energy and railways should be owned by the state.', -1, 0],
+        ['lower-taxes', 'Lowering taxes matters more than expanding public services.', 1, 0],
+        ['minimum-wage', 'The minimum wage should be raised even if it costs some jobs.', -1, 0],
+        ['business-regulation', 'Businesses should be free to set prices and wages with little regulation.', 1, 0],
+        ['public-healthcare', 'Healthcare should be run by the state and free at the point of use.', -1, 0],
+        ['environmental-rules', 'Environmental rules should be tightened even if that slows economic growth.', -0.5, 0],
+        ['same-sex-marriage', 'Same-sex couples should have the same right to marry as anyone else.', 0, 1],
+        ['police-surveillance', 'The police should get more powers to monitor communications to prevent crime.', 0, -1],
+        ['drug-decriminalisation', 'Possessing soft drugs for personal use should not be a crime.', 0, 1],
+        ['national-traditions', 'Schools should teach respect for national traditions above all else.', 0, -1],
+        ['right-to-protest', 'People should be free to protest even when it disrupts daily life.', 0, 1],
+        ['limit-immigration', 'Immigration should be strictly limited to protect national identity.', 0, -1]
+      ];
+      for (const [index, [id, statement, econDirection, personalDirection]] of seed.entries()) {
+        await driver.query(
+          `INSERT INTO quiz_questions (id, country, statement, econ_direction, personal_direction, sort_order) VALUES (?, NULL, ?, ?, ?, ?) ON CONFLICT (id) DO NOTHING`,
+          [id, statement, econDirection, personalDirection, index + 1]
+        );
+      }
+    }
+  },
+  {
+    version: 11,
+    name: 'classification rules, quadrants and centroids for ideologies',
+    async up(driver) {
+      const real = realType(driver.dialect);
+      await driver.query(`
+        CREATE TABLE IF NOT EXISTS ideology_rules (
+          id ${autoIncrementPrimaryKey(driver.dialect)},
+          ideology TEXT NOT NULL REFERENCES ideologies (id),
+          sort_order INTEGER NOT NULL,
+          region TEXT NOT NULL
+        )
+      `);
+
+      const columns = await listColumns(driver, 'ideologies');
+      const added: Array<[string, string]> = [
+        ['quadrant', `TEXT CHECK (quadrant IN ('centre', 'left-libertarian', 'left-authoritarian', 'right-libertarian', 'right-authoritarian'))`],
+        ['centroid_econ', real],
+        ['centroid_personal', real]
+      ];
+      for (const [column, type] of added) {
+        if (!columns.includes(column)) {
+          await driver.query(`ALTER TABLE ideologies ADD COLUMN ${column} ${type}`);
+        }
+      }
+
+      // Default classification, checked by sort_order: strongly authoritarian
+      // parties first, then by quadrant so left-libertarians are green and
+      // left-authoritarians socialist rather than liberal and authoritarian.
+      // The last rule, without bounds, covers the rest of the compass.
+      const rules: Array<[string, object]> = [
+        ['authoritarian', { type: 'bounds', personal: [null, -5] }],
+        ['libertarian', { type: 'bounds', econ: [3, null], personal: [3, null] }],
+        ['liberal', { type: 'bounds', econ: [-2, null], personal: [2, null] }],
+        ['conservative', { type: 'bounds', econ: [0, null], personal: [null, -2] }],
+        ['green', { type: 'bounds', econ: [null, -2], personal: [2, null] }],
+        ['socialist', { type: 'bounds', econ: [null, -3] }],
+        ['centrist', { type: 'bounds' }]
+      ];
+      const ideologyIds = new Set((await driver.query(`SELECT id FROM ideologies`)).map((row) => String(row.id)));
+      const existingRules = await driver.query(`SELECT COUNT(*) AS count FROM ideology_rules`);
+      if (Number(existingRules[0]?.count ?? 0) === 0) {
+        for (const [index, [ideology, region]] of rules.entries()) {
+          if (!ideologyIds.has(ideology)) continue;
+          await driver.query(
+            `INSERT INTO ideology_rules (ideology, sort_order, region) VALUES (?, ?, ?)`,
+            [ideology, index + 1, JSON.stringify(region)]
+          );
+        }
+      }
+
+      // [id, quadrant, centroid econFreedom, centroid personalFreedom]
+      const schemes: Array<[string, string | null, number, number]> = [
+        ['liberal', null, 2, 5],
+        ['conservative', 'right-authoritarian', 5, -4],
+        ['libertarian', 'right-libertarian', 7, 7],
+        ['authoritarian', null, 0, -8],
+        ['centrist', 'centre', 0, 0],
+        ['socialist', 'left-authoritarian', -6, -2],
+        ['green', 'left-libertarian', -5, 5]
+      ];
+      for (const [id, quadrant, centroidEcon, centroidPersonal] of schemes) {
+        await driver.query(
+          `UPDATE ideologies SET quadrant = ?, centroid_econ = ?, centroid_personal = ? WHERE id = ? AND quadrant IS NULL AND centroid_econ IS NULL`,
+          [quadrant, centroidEcon, centroidPersonal, id]
+        );
+      }
+
+      // Authoritarian now covers strong authoritarianism on either economic side
+      await driver.query(
+        `UPDATE ideologies SET description = ? WHERE id = 'authoritarian' AND description = ?`,
+        ['Strong state control over personal life, whatever the economic model.', 'Strong state control over the economy and personal life.']
+      );
+    }
+  },
+  {
+    version: 12,
+    name: 'clear the review of an llm_responses row when its content changes',
+    async up(driver) {
+      // A review judges the text and scores it was given, so re-ingesting or
+      // re-scoring a row with different content sends it back to pending.
+      // The trigger deletes the review in the same statement as the update.
+      const changed = REVIEWED_RESPONSE_COLUMNS
+        .map((column) => driver.dialect === 'postgres'
+          ? `OLD.${column} IS DISTINCT FROM NEW.${column}`
+          : `NOT (OLD.${column} IS NEW.${column})`)
+        .join(' OR ');
+
+      if (driver.dialect === 'postgres') {
+        await driver.query(`
+          CREATE OR REPLACE FUNCTION clear_changed_policy_review() RETURNS trigger AS $$
+          BEGIN
+            DELETE FROM policy_reviews WHERE response_id = OLD.id;
+            RETURN NULL;
+          END;
+          $$ LANGUAGE plpgsql
+        `);
+        await driver.query(`DROP TRIGGER IF EXISTS llm_responses_clear_review ON llm_responses`);
+        await driver.query(`
+          CREATE TRIGGER llm_responses_clear_review
+          AFTER UPDATE ON llm_responses
+          FOR EACH ROW WHEN (${changed})
+          EXECUTE FUNCTION clear_changed_policy_review()
+        `);
+        return;
+      }
+
+      await driver.query(`
+        CREATE TRIGGER IF NOT EXISTS llm_responses_clear_review
+        AFTER UPDATE ON llm_responses
+        FOR EACH ROW WHEN ${changed}
+        BEGIN
+          DELETE FROM policy_reviews WHERE response_id = OLD.id;
+        END
+      `);
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+async function ensureSchemaVersionTable(driver: SqlDriver): Promise<void> {
+  await driver.query(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+export async function getSchemaVersion(driver: SqlDriver): Promise<number> {
+  if (!(await tableExists(driver, 'schema_version'))) {
+    return 0;
+  }
+
+  const rows = await driver.query(`SELECT MAX(version) AS version FROM schema_version`);
+  return Number(rows[0]?.version ?? 0);
+}
+
+/**
+ * Applies every migration newer than the database's recorded version, in
+ * order, and returns the ones that ran. Each migration commits together with
+ * its schema_version row, so one that fails partway is rolled back and leaves
+ * the database at the last completed version.
+ */
+export async function runMigrations(driver: SqlDriver): Promise<AppliedMigration[]> {
+  await ensureSchemaVersionTable(driver);
+  const currentVersion = await getSchemaVersion(driver);
+  const applied: AppliedMigration[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentVersion) continue;
+
+    await driver.transaction(async (tx) => {
+      await migration.up(tx);
+      await tx.query(
+        `INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)`,
+        [migration.version, migration.name, new Date().toISOString()]
+      );
+    });
+    applied.push({ version: migration.version, name: migration.name });
+  }
+
+  return applied;
+}
+
+/**
+ * Refuses to serve from a database whose schema is behind (or ahead of) the
+ * migrations this build knows about.
+ */
+export async function assertSchemaUpToDate(driver: SqlDriver): Promise<void> {
+  const version = await getSchemaVersion(driver);
+  if (version === LATEST_SCHEMA_VERSION) {
+    return;
+  }
+
+  if (version > LATEST_SCHEMA_VERSION) {
+    throw new Error(`Database schema version ${version} is newer than this build supports (${LATEST_SCHEMA_VERSION}). Deploy a newer build of the app.`);
+  }
+
+  throw new Error(`Database schema is at version ${version} but version ${LATEST_SCHEMA_VERSION} is required. Run "npm run db:migrate" against this database before serving from it.`);
+}
@@ -0,0 +1,355 @@
+import type {
+  AnalysisError,
+  AnalysisRun,
+  Country,
+  Ideology,
+  IdeologyDefinition,
+  IdeologyRegionRule,
+  LLMPolicyResponse,
+  PartyCountry,
+  PartyFamily,
+  PolicyAnalysis,
+  PoliticalParty,
+  PositionSource,
+  QuizQuestion,
+  ReviewStatus,
+  ReviewablePolicy
+} from '../types/political';
+import {
+  PolicyScore,
+  derivePartyPosition,
+  parsePolicyImpact,
+  resolvePartyPosition,
+  storedPartyPosition
+} from '../lib/partyPositions.js';
+import { estimatePositionUncertainty } from '../lib/positionUncertainty.js';
+import { ResponseIssueIds, partyQualityIssues } from '../lib/dataQuality.js';
+import {
+  IdeologyRuleSet,
+  IdeologySchemes,
+  classifyAllSchemes,
+  classifyIdeology,
+  parseCompassQuadrant,
+  parseIdeology,
+  parseIdeologyRegion
+} from '../lib/ideologyClassifier.js';
+import { parsePartyFamily } from '../lib/partyFamilies.js';
+import { flagEmoji, parseElectoralSystem } from '../lib/countries.js';
+import { partySlug } from '../lib/partySlugs.js';
+import { TimedPolicyScore } from '../lib/partyHistory.js';
+import type { SqlRow } from './sqlDrivers.js';
+
+// Row mappers shared by every SqlDriver. Postgres returns NUMERIC columns as
+// strings and timestamps as Date objects, sql.js returns plain numbers and
+// strings, so every value goes through the coercion helpers below.
+
+export interface DBParty {
+  id: string;
+  name: string;
+  type: string;
+  country: string;
+  founded: number | null;
+  website: string | null;
+  econ_freedom: number | null;
+  personal_freedom: number | null;
+  external_ideology: Ideology | null;
+  party_family: PartyFamily | null;
+}
+
+export function toNullableNumber(value: unknown): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === 'number') {
+    return Number.isNaN(value) ? null : value;
+  }
+
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function toNullableString(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+export function determineIdeology(leftRight: number, authLib: number, ruleSet: IdeologyRuleSet): Ideology {
+  return classifyIdeology({ econFreedom: leftRight, personalFreedom: authLib }, ruleSet);
+}
+
+/** An `ideology_rules` row; null when its region isn't valid JSON for a region. */
+export function mapIdeologyRuleRow(row: SqlRow): IdeologyRegionRule | null {
+  const region = parseIdeologyRegion(toNullableString(row.region));
+  return region ? { order: toNullableNumber(row.sort_order) ?? 0, region } : null;
+}
+
+export function mapIdeologyRow(row: SqlRow, rules: IdeologyRegionRule[] = []): IdeologyDefinition {
+  const centroidEcon = toNullableNumber(row.centroid_econ);
+  const centroidPersonal = toNullableNumber(row.centroid_personal);
+  return {
+    id: String(row.id),
+    label: String(row.label),
+    color: String(row.color),
+    description: toNullableString(row.description),
+    sortOrder: toNullableNumber(row.sort_order) ?? 0,
+    rules,
+    quadrant: parseCompassQuadrant(row.quadrant),
+    centroid: centroidEcon !== null && centroidPersonal !== null
+      ? { econFreedom: centroidEcon, personalFreedom: centroidPersonal }
+      : null
+  };
+}
+
+export function mapQuizQuestionRow(row: SqlRow): QuizQuestion {
+  return {
+    id: String(row.id),
+    country: toNullableString(row.country),
+    statement: String(row.statement),
+    econDirection: toNullableNumber(row.econ_direction) ?? 0,
+    personalDirection: toNullableNumber(row.personal_direction) ?? 0,
+    sortOrder: toNullableNumber(row.sort_order) ?? 0
+  };
+}
+
+export function mapCountryRow(row: SqlRow): Country {
+  return {
+    ...mapPartyCountryRow(row, ''),
+    partyCount: toNullableNumber(row.party_count) ?? 0
+  };
+}
+
+/** Country metadata selected alongside a party, from `country_*` columns by default. */
+export function mapPartyCountryRow(row: SqlRow, prefix = 'country_'): PartyCountry {
+  const code = String(row[`${prefix}code`]);
+  return {
+    code,
+    alpha3: String(row[`${prefix}alpha3`]),
+    name: String(row[`${prefix}name`]),
+    flag: flagEmoji(code),
+    region: toNullableString(row[`${prefix}region`]),
+    euMember: Number(row[`${prefix}eu_member`]) === 1,
+    electoralSystem: parseElectoralSystem(row[`${prefix}electoral_system`])
+  };
+}
+
+export function mapPartyRow(row: SqlRow): DBParty {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    type: String(row.type),
+    country: String(row.country),
+    founded: toNullableNumber(row.founded),
+    website: toNullableString(row.website),
+    econ_freedom: toNullableNumber(row.econ_freedom),
+    personal_freedom: toNullableNumber(row.personal_freedom),
+    external_ideology: parseIdeology(row.external_ideology),
+    party_family: parsePartyFamily(row.party_family),
+  };
+}
+
+export function mapPolicyScoreRow(row: SqlRow): TimedPolicyScore {
+  return {
+    timestamp: toNullableString(row.timestamp),
+    econFreedom: toNullableNumber(row.econ_freedom),
+    personalFreedom: toNullableNumber(row.personal_freedom),
+    weight: toNullableNumber(row.weight),
+    impact: parsePolicyImpact(row.impact)
+  };
+}
+
+/**
+ * Maps analysis_runs columns selected with a `run_` prefix (as in a LEFT JOIN
+ * from llm_responses) to an AnalysisRun, or null when the row has no run.
+ */
+export function mapAnalysisRunRow(row: SqlRow, prefix = ''): AnalysisRun | null {
+  const id = toNullableString(row[`${prefix}id`]);
+  const provider = toNullableString(row[`${prefix}provider`]);
+  if (!id || !provider) {
+    return null;
+  }
+
+  return {
+    id,
+    provider,
+    model: toNullableString(row[`${prefix}model`]) ?? '',
+    promptVersion: toNullableString(row[`${prefix}prompt_version`]) ?? '',
+    createdAt: toNullableString(row[`${prefix}created_at`]) ?? '',
+    description: toNullableString(row[`${prefix}description`])
+  };
+}
+
+export function mapLLMResponseRow(row: SqlRow): LLMPolicyResponse {
+  return {
+    id: Number(row.id),
+    party_id: String(row.party_id),
+    country: toNullableString(row.country),
+    timestamp: toNullableString(row.timestamp) ?? '',
+    chunk_index: Number(row.chunk_index ?? 0),
+    policy_id: toNullableNumber(row.policy_id),
+    policy_text: toNullableString(row.policy_text),
+    short_name: toNullableString(row.short_name),
+    impact: parsePolicyImpact(row.impact),
+    impact_explanation: toNullableString(row.impact_explanation),
+    category: toNullableString(row.category),
+    explanation: toNullableString(row.explanation),
+    econ_freedom: toNullableNumber(row.econ_freedom),
+    personal_freedom: toNullableNumber(row.personal_freedom),
+    weight: toNullableNumber(row.weight),
+    error: toNullableString(row.error),
+    run_id: toNullableString(row.run_id),
+    chunk_text: toNullableString(row.chunk_text)
+  };
+}
+
+export function mapAnalysisErrorRow(row: SqlRow): AnalysisError {
+  return {
+    id: Number(row.id),
+    partyId: String(row.party_id),
+    country: toNullableString(row.country),
+    chunkIndex: Number(row.chunk_index ?? 0),
+    error: toNullableString(row.error) ?? '',
+    timestamp: toNullableString(row.timestamp),
+    run: mapAnalysisRunRow(row, 'run_'),
+    retryable: Boolean(toNullableNumber(row.retryable))
+  };
+}
+
+function parseCategories(categoryJson: string | null): string[] {
+  if (!categoryJson) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(categoryJson);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn('Failed to parse category JSON:', categoryJson);
+    return [];
+  }
+}
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected', 'edited'];
+
+export function isReviewStatus(value: unknown): value is ReviewStatus {
+  return typeof value === 'string' && (REVIEW_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Maps an llm_responses row (joined with its analysis run and review) to a
+ * PolicyAnalysis, or null for rows without policy text or a short name.
+ */
+export function mapPolicyRow(row: SqlRow): PolicyAnalysis | null {
+  const policyText = toNullableString(row.policy_text);
+  const shortName = toNullableString(row.short_name);
+  if (!policyText || !shortName) {
+    return null;
+  }
+
+  const explanation = toNullableString(row.explanation);
+  const impactExplanation = toNullableString(row.impact_explanation);
+
+  const reviewStatus = toNullableString(row.review_status);
+
+  return {
+    id: Number(row.id),
+    policyText,
+    shortName,
+    impact: parsePolicyImpact(row.impact) ?? 'medium',
+    categories: parseCategories(toNullableString(row.category)),
+    explanation: explanation || impactExplanation || '',
+    econFreedom: toNullableNumber(row.econ_freedom),
+    personalFreedom: toNullableNumber(row.personal_freedom),
+    run: mapAnalysisRunRow(row, 'run_'),
+    reviewStatus: isReviewStatus(reviewStatus) ? reviewStatus : 'pending'
+  };
+}
+
+/**
+ * Like mapPolicyRow, but also maps the review columns (`review_*`) and the
+ * model's original values (`original_*`) selected for the review queue.
+ */
+export function mapReviewablePolicyRow(row: SqlRow): ReviewablePolicy | null {
+  const policy = mapPolicyRow(row);
+  if (!policy) {
+    return null;
+  }
+
+  return {
+    ...policy,
+    partyId: String(row.party_id),
+    review: {
+      status: policy.reviewStatus,
+      reviewer: toNullableString(row.review_reviewer),
+      note: toNullableString(row.review_note),
+      reviewedAt: toNullableString(row.review_reviewed_at)
+    },
+    original: {
+      impact: parsePolicyImpact(row.original_impact),
+      categories: parseCategories(toNullableString(row.original_category)),
+      econFreedom: toNullableNumber(row.original_econ_freedom),
+      personalFreedom: toNullableNumber(row.original_personal_freedom)
+    }
+  };
+}
+
+export function transformDBPartyToAppParty(
+  dbParty: DBParty,
+  policyScores: PolicyScore[],
+  positionSource: PositionSource,
+  schemes: IdeologySchemes,
+  failedChunkCount = 0,
+  country: PartyCountry | null = null,
+  responseIssueIds: ResponseIssueIds = { outOfRangeResponseIds: [], invalidCategoryResponseIds: [] }
+): PoliticalParty {
+  const storedPosition = storedPartyPosition(dbParty.econ_freedom, dbParty.personal_freedom);
+  const derivedPosition = derivePartyPosition(policyScores);
+  const { position, source } = resolvePartyPosition(storedPosition, derivedPosition, positionSource);
+  const { econFreedom, personalFreedom } = position;
+  const ideology = determineIdeology(econFreedom, personalFreedom, schemes.ruleSet);
+  const classifications = classifyAllSchemes(position, dbParty.external_ideology, schemes);
+
+  const dataQualityIssues = partyQualityIssues({
+    partyId: dbParty.id,
+    partyName: dbParty.name,
+    country: dbParty.country,
+    storedEconFreedom: dbParty.econ_freedom,
+    storedPersonalFreedom: dbParty.personal_freedom,
+    responseCount: policyScores.length + failedChunkCount,
+    errorCount: failedChunkCount,
+    econScoredCount: policyScores.filter((score) => score.econFreedom !== null).length,
+    personalScoredCount: policyScores.filter((score) => score.personalFreedom !== null).length,
+    ...responseIssueIds
+  }).map((issue) => issue.kind);
+
+  const nameWords = dbParty.name.split(' ');
+  const shortName = nameWords.length > 2 ? nameWords[0] : nameWords.slice(0, 2).join(' ');
+
+  return {
+    id: dbParty.id,
+    slug: partySlug(dbParty.country, dbParty.id),
+    name: dbParty.name,
+    shortName,
+    econFreedom,
+    personalFreedom,
+    positionSource: source,
+    storedPosition,
+    derivedPosition,
+    policyCount: policyScores.length,
+    uncertainty: estimatePositionUncertainty(policyScores, dbParty.id),
+    failedChunkCount,
+    dataQualityIssues,
+    ideology,
+    classifications,
+    partyFamily: dbParty.party_family,
+    country,
+    description: `${dbParty.name} is a ${dbParty.type} in ${country?.name ?? dbParty.country}.`,
+    website: dbParty.website ?? undefined,
+    logo: undefined,
+    founded: dbParty.founded ?? undefined,
+    support: undefined
+  };
+}
@@ -0,0 +1,525 @@
+import type {
+  AnalysisError,
+  AnalysisRun,
+  Country,
+  IdeologyDefinition,
+  IdeologyRegionRule,
+  LLMPolicyResponse,
+  PartyPositionHistory,
+  PolicyAnalysis,
+  PolicyReviewInput,
+  PoliticalParty,
+  PositionSource,
+  QuizQuestion,
+  ReviewStatus,
+  ReviewablePolicy
+} from '../types/political';
+import { DEFAULT_POSITION_SOURCE } from '../lib/partyPositions.js';
+import { TimedPolicyScore, buildPartyHistory } from '../lib/partyHistory.js';
+import { PartyQualityStats, ResponseIssueIds, isOutOfRangeScore, isValidCategoryJson } from '../lib/dataQuality.js';
+import { buildIdeologySchemes } from '../lib/ideologyClassifier.js';
+import {
+  mapAnalysisErrorRow,
+  mapAnalysisRunRow,
+  mapCountryRow,
+  mapIdeologyRow,
+  mapIdeologyRuleRow,
+  mapLLMResponseRow,
+  mapPartyCountryRow,
+  mapPartyRow,
+  mapPolicyRow,
+  mapPolicyScoreRow,
+  mapQuizQuestionRow,
+  toNullableNumber,
+  mapReviewablePolicyRow,
+  transformDBPartyToAppParty
+} from './partyMappers.js';
+import { SqlDriver, placeholders } from './sqlDrivers.js';
+
+const LLM_RESPONSE_COLUMNS: Array<keyof LLMPolicyResponse> = [
+  'id', 'party_id', 'country', 'timestamp', 'chunk_index', 'policy_id',
+  'policy_text', 'short_name', 'impact', 'impact_explanation',
+  'category', 'explanation', 'econ_freedom', 'personal_freedom', 'weight', 'error', 'run_id', 'chunk_text'
+];
+
+const ANALYSIS_RUN_SELECT = `
+  ar.id AS run_id, ar.provider AS run_provider, ar.model AS run_model,
+  ar.prompt_version AS run_prompt_version, ar.created_at AS run_created_at, ar.description AS run_description
+`;
+
+// Policy columns with reviewer edits applied. Reviews other than 'edited'
+// store no overrides, so COALESCE falls through to the model's values.
+const REVIEWED_POLICY_SELECT = `
+  lr.id, lr.party_id, lr.country, lr.timestamp, lr.chunk_index, lr.policy_id,
+  lr.policy_text, lr.short_name, lr.impact_explanation, lr.explanation, lr.weight, lr.error,
+  COALESCE(pr.impact, lr.impact) AS impact,
+  COALESCE(pr.category, lr.category) AS category,
+  COALESCE(pr.econ_freedom, lr.econ_freedom) AS econ_freedom,
+  COALESCE(pr.personal_freedom, lr.personal_freedom) AS personal_freedom,
+  COALESCE(pr.status, 'pending') AS review_status
+`;
+
+const REVIEWED_SCORE_SELECT = `
+  lr.party_id, lr.timestamp, lr.weight,
+  COALESCE(pr.impact, lr.impact) AS impact,
+  COALESCE(pr.econ_freedom, lr.econ_freedom) AS econ_freedom,
+  COALESCE(pr.personal_freedom, lr.personal_freedom) AS personal_freedom
+`;
+
+const NOT_REJECTED = `(pr.status IS NULL OR pr.status <> 'rejected')`;
+
+// Review states served publicly when only reviewed policies are published
+const PUBLISHED_REVIEW_STATUSES: ReviewStatus[] = ['approved', 'edited'];
+
+// Rejected rows are never published; with `reviewedOnly` pending rows aren't either
+function publishedReviewFilter(reviewedOnly: boolean): string {
+  return reviewedOnly
+    ? `pr.status IN (${PUBLISHED_REVIEW_STATUSES.map((status) => `'${status}'`).join(', ')})`
+    : NOT_REJECTED;
+}
+
+// Successful rows with the text and short name a policy is listed with
+// (mapPolicyRow skips the rest), so positions count exactly the listed policies
+const LISTED_POLICY_FILTER = `lr.error IS NULL AND lr.policy_text <> '' AND lr.short_name <> ''`;
+
+function publishedPolicyFilter(reviewedOnly: boolean): string {
+  return `${LISTED_POLICY_FILTER} AND ${publishedReviewFilter(reviewedOnly)}`;
+}
+
+export interface PublishedPolicyOptions {
+  reviewedOnly?: boolean; // only approved or edited policies, e.g. with PUBLISH_REVIEWED_POLICIES_ONLY
+}
+
+/**
+ * Every query the app runs against the parties/llm_responses schema. Used by
+ * the API (Postgres or Node sql.js) and by the browser sql.js fallback, so a
+ * query added here behaves the same on every backend.
+ */
+export class PartyRepository {
+  constructor(private readonly driver: SqlDriver) {}
+
+  get dialect() {
+    return this.driver.dialect;
+  }
+
+  async fetchCountries(): Promise<Country[]> {
+    const rows = await this.driver.query(`
+      SELECT c.code, c.alpha3, c.name, c.region, c.eu_member, c.electoral_system, COUNT(p.id) AS party_count
+      FROM countries c
+      LEFT JOIN parties p ON p.country = c.code
+      GROUP BY c.code, c.alpha3, c.name, c.region, c.eu_member, c.electoral_system
+      ORDER BY c.name
+    `);
+
+    return rows.map(mapCountryRow);
+  }
+
+  /** Ideologies with the rules, quadrant and centroid each classification scheme uses. */
+  async fetchIdeologies(): Promise<IdeologyDefinition[]> {
+    const rows = await this.driver.query(`
+      SELECT id, label, color, description, sort_order, quadrant, centroid_econ, centroid_personal
+      FROM ideologies
+      ORDER BY sort_order, label
+    `);
+    const ruleRows = await this.driver.query(`
+      SELECT ideology, sort_order, region
+      FROM ideology_rules
+      ORDER BY sort_order, id
+    `);
+
+    const rulesByIdeology = new Map<string, IdeologyRegionRule[]>();
+    for (const row of ruleRows) {
+      const rule = mapIdeologyRuleRow(row);
+      if (!rule) continue;
+      rulesByIdeology.set(String(row.ideology), [...(rulesByIdeology.get(String(row.ideology)) ?? []), rule]);
+    }
+
+    return rows.map((row) => mapIdeologyRow(row, rulesByIdeology.get(String(row.id)) ?? []));
+  }
+
+  /** Quiz questions asked in every country plus those of the given countries (alpha-2 codes). */
+  async fetchQuizQuestions(countryCodes: string[]): Promise<QuizQuestion[]> {
+    const codes = [...new Set(countryCodes)];
+    const rows = await this.driver.query(`
+      SELECT id, country, statement, econ_direction, personal_direction, sort_order
+      FROM quiz_questions
+      WHERE country IS NULL${codes.length > 0 ? ` OR country IN (${placeholders(codes.length)})` : ''}
+      ORDER BY sort_order, id
+    `, codes);
+
+    return rows.map(mapQuizQuestionRow);
+  }
+
+  /** Inserts quiz questions, or replaces those with the same id. */
+  async upsertQuizQuestions(questions: QuizQuestion[]): Promise<void> {
+    for (const question of questions) {
+      await this.driver.query(`
+        INSERT INTO quiz_questions (id, country, statement, econ_direction, personal_direction, sort_order)
+        VALUES (${placeholders(6)})
+        ON CONFLICT (id) DO UPDATE SET
+          country = excluded.country, statement = excluded.statement, econ_direction = excluded.econ_direction,
+          personal_direction = excluded.personal_direction, sort_order = excluded.sort_order
+      `, [question.id, question.country, question.statement, question.econDirection, question.personalDirection, question.sortOrder]);
+    }
+  }
+
+  /**
+   * Parties of one or more countries (alpha-2 codes), each with its country's
+   * metadata. Derived positions use the same policies fetchPartyPolicies serves.
+   */
+  async fetchParties(
+    countryCodes: string | string[],
+    positionSource: PositionSource = DEFAULT_POSITION_SOURCE,
+    { reviewedOnly = false }: PublishedPolicyOptions = {}
+  ): Promise<PoliticalParty[]> {
+    const codes = typeof countryCodes === 'string' ? [countryCodes] : [...new Set(countryCodes)];
+    if (codes.length === 0) {
+      return [];
+    }
+
+    const rows = await this.driver.query(`
+      SELECT
+        p.id, p.name, p.type, p.country, p.founded, p.website, p.econ_freedom, p.personal_freedom,
+        p.external_ideology, p.party_family,
+        c.code AS country_code, c.alpha3 AS country_alpha3, c.name AS country_name, c.region AS country_region,
+        c.eu_member AS country_eu_member, c.electoral_system AS country_electoral_system
+      FROM parties p
+      JOIN countries c ON c.code = p.country
+      WHERE p.country IN (${placeholders(codes.length)})
+      ORDER BY c.name, p.name
+    `, codes);
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const policyScores = await this.fetchPolicyScores(codes, reviewedOnly);
+    const failedChunkCounts = await this.fetchFailedChunkCounts(codes);
+    const responseIssueIds = await this.fetchResponseIssueIds(codes);
+    const schemes = buildIdeologySchemes(await this.fetchIdeologies());
+    return rows.map((row) => {
+      const dbParty = mapPartyRow(row);
+      return transformDBPartyToAppParty(
+        dbParty,
+        policyScores.get(dbParty.id) ?? [],
+        positionSource,
+        schemes,
+        failedChunkCounts.get(dbParty.id) ?? 0,
+        mapPartyCountryRow(row),
+        responseIssueIds.get(dbParty.id)
+      );
+    });
+  }
+
+  /**
+   * Published policies of a party. Rejected rows are never served; with
+   * `reviewedOnly` pending rows are left out as well.
+   */
+  async fetchPartyPolicies(partyId: string, { reviewedOnly = false }: PublishedPolicyOptions = {}): Promise<PolicyAnalysis[]> {
+    const rows = await this.driver.query(`
+      SELECT ${REVIEWED_POLICY_SELECT}, ${ANALYSIS_RUN_SELECT}
+      FROM llm_responses lr
+      LEFT JOIN analysis_runs ar ON ar.id = lr.run_id
+      LEFT JOIN policy_reviews pr ON pr.response_id = lr.id
+      WHERE lr.party_id = ? AND ${publishedPolicyFilter(reviewedOnly)}
+      ORDER BY lr.chunk_index, lr.policy_id
+    `, [partyId]);
+
+    return rows
+      .map(mapPolicyRow)
+      .filter((policy): policy is PolicyAnalysis => policy !== null);
+  }
+
+  /**
+   * Every scored policy of a party with its review, optionally only those in
+   * one review state.
+   */
+  async fetchReviewQueue(partyId: string, status: ReviewStatus | null = null): Promise<ReviewablePolicy[]> {
+    const params: unknown[] = [partyId];
+    if (status) params.push(status);
+
+    const rows = await this.driver.query(`
+      SELECT
+        ${REVIEWED_POLICY_SELECT}, ${ANALYSIS_RUN_SELECT},
+        lr.impact AS original_impact, lr.category AS original_category,
+        lr.econ_freedom AS original_econ_freedom, lr.personal_freedom AS original_personal_freedom,
+        pr.reviewer AS review_reviewer, pr.note AS review_note, pr.reviewed_at AS review_reviewed_at
+      FROM llm_responses lr
+      LEFT JOIN analysis_runs ar ON ar.id = lr.run_id
+      LEFT JOIN policy_reviews pr ON pr.response_id = lr.id
+      WHERE lr.party_id = ? AND ${LISTED_POLICY_FILTER}
+        ${status ? `AND COALESCE(pr.status, 'pending') = ?` : ''}
+      ORDER BY lr.chunk_index, lr.policy_id
+    `, params);
+
+    return rows
+      .map(mapReviewablePolicyRow)
+      .filter((policy): policy is ReviewablePolicy => policy !== null);
+  }
+
+  /**
+   * Records a review, replacing any earlier one; 'pending' clears it. Returns
+   * false when the llm_responses row doesn't exist.
+   */
+  async savePolicyReview(review: PolicyReviewInput, reviewedAt = new Date()): Promise<boolean> {
+    const existing = await this.driver.query(`SELECT id FROM llm_responses WHERE id = ?`, [review.responseId]);
+    if (existing.length === 0) {
+      return false;
+    }
+
+    if (review.status === 'pending') {
+      await this.driver.query(`DELETE FROM policy_reviews WHERE response_id = ?`, [review.responseId]);
+      return true;
+    }
+
+    const edited = review.status === 'edited';
+    await this.driver.query(`
+      INSERT INTO policy_reviews (response_id, status, econ_freedom, personal_freedom, impact, category, reviewer, note, reviewed_at)
+      VALUES (${placeholders(9)})
+      ON CONFLICT (response_id) DO UPDATE SET
+        status = excluded.status, econ_freedom = excluded.econ_freedom, personal_freedom = excluded.personal_freedom,
+        impact = excluded.impact, category = excluded.category, reviewer = excluded.reviewer,
+        note = excluded.note, reviewed_at = excluded.reviewed_at
+    `, [
+      review.responseId,
+      review.status,
+      edited ? review.econFreedom ?? null : null,
+      edited ? review.personalFreedom ?? null : null,
+      edited ? review.impact ?? null : null,
+      edited && review.categories ? JSON.stringify(review.categories) : null,
+      review.reviewer,
+      review.note,
+      reviewedAt.toISOString()
+    ]);
+    return true;
+  }
+
+  async fetchPartyHistories(partyIds: string[], { reviewedOnly = false }: PublishedPolicyOptions = {}): Promise<PartyPositionHistory[]> {
+    if (partyIds.length === 0) {
+      return [];
+    }
+
+    const rows = await this.driver.query(`
+      SELECT ${REVIEWED_SCORE_SELECT}
+      FROM llm_responses lr
+      LEFT JOIN policy_reviews pr ON pr.response_id = lr.id
+      WHERE lr.party_id IN (${placeholders(partyIds.length)}) AND ${publishedPolicyFilter(reviewedOnly)}
+      ORDER BY lr.timestamp
+    `, partyIds);
+
+    const scoresByParty = new Map<string, TimedPolicyScore[]>(partyIds.map((partyId) => [partyId, []]));
+    for (const row of rows) {
+      scoresByParty.get(String(row.party_id))?.push(mapPolicyScoreRow(row));
+    }
+
+    return partyIds.map((partyId) => buildPartyHistory(partyId, scoresByParty.get(partyId) ?? []));
+  }
+
+  /**
+   * Failed chunks (llm_responses rows with an error), optionally for one party.
+   */
+  async fetchAnalysisErrors(partyId: string | null = null): Promise<AnalysisError[]> {
+    const rows = await this.driver.query(`
+      SELECT
+        lr.id, lr.party_id, lr.country, lr.chunk_index, lr.error, lr.timestamp,
+        CASE WHEN lr.chunk_text IS NULL THEN 0 ELSE 1 END AS retryable,
+        ${ANALYSIS_RUN_SELECT}
+      FROM llm_responses lr
+      LEFT JOIN analysis_runs ar ON ar.id = lr.run_id
+      WHERE lr.error IS NOT NULL ${partyId ? 'AND lr.party_id = ?' : ''}
+      ORDER BY lr.party_id, lr.chunk_index, lr.id
+    `, partyId ? [partyId] : []);
+
+    return rows.map(mapAnalysisErrorRow);
+  }
+
+  async fetchLLMResponse(id: number): Promise<LLMPolicyResponse | null> {
+    const rows = await this.driver.query(`
+      SELECT ${LLM_RESPONSE_COLUMNS.join(', ')}
+      FROM llm_responses
+      WHERE id = ?
+    `, [id]);
+
+    return rows.length > 0 ? mapLLMResponseRow(rows[0]) : null;
+  }
+
+  async deleteLLMResponse(id: number): Promise<void> {
+    await this.driver.query(`DELETE FROM llm_responses WHERE id = ?`, [id]);
+  }
+
+  /**
+   * Per-party aggregates for the data-quality report, covering every party
+   * and every llm_responses row (reviews are not applied).
+   */
+  async fetchQualityStats(): Promise<PartyQualityStats[]> {
+    const partyRows = await this.driver.query(`
+      SELECT
+        p.id, p.name, p.country, p.econ_freedom, p.personal_freedom,
+        COUNT(lr.id) AS response_count,
+        COUNT(lr.error) AS error_count,
+        SUM(CASE WHEN ${LISTED_POLICY_FILTER} AND lr.econ_freedom IS NOT NULL THEN 1 ELSE 0 END) AS econ_scored_count,
+        SUM(CASE WHEN ${LISTED_POLICY_FILTER} AND lr.personal_freedom IS NOT NULL THEN 1 ELSE 0 END) AS personal_scored_count
+      FROM parties p
+      LEFT JOIN llm_responses lr ON lr.party_id = p.id
+      GROUP BY p.id, p.name, p.country, p.econ_freedom, p.personal_freedom
+      ORDER BY p.country, p.name
+    `);
+
+    const stats = new Map<string, PartyQualityStats>(partyRows.map((row) => [String(row.id), {
+      partyId: String(row.id),
+      partyName: String(row.name),
+      country: String(row.country),
+      storedEconFreedom: toNullableNumber(row.econ_freedom),
+      storedPersonalFreedom: toNullableNumber(row.personal_freedom),
+      responseCount: Number(row.response_count ?? 0),
+      errorCount: Number(row.error_count ?? 0),
+      econScoredCount: Number(row.econ_scored_count ?? 0),
+      personalScoredCount: Number(row.personal_scored_count ?? 0),
+      outOfRangeResponseIds: [],
+      invalidCategoryResponseIds: []
+    }]));
+
+    for (const [partyId, issueIds] of await this.fetchResponseIssueIds(null)) {
+      const party = stats.get(partyId);
+      if (party) {
+        Object.assign(party, issueIds);
+      }
+    }
+
+    return [...stats.values()];
+  }
+
+  async fetchPartyIds(): Promise<Set<string>> {
+    const rows = await this.driver.query(`SELECT id FROM parties`);
+    return new Set(rows.map((row) => String(row.id)));
+  }
+
+  async nextLLMResponseId(): Promise<number> {
+    const rows = await this.driver.query(`SELECT MAX(id) AS max_id FROM llm_responses`);
+    return Number(rows[0]?.max_id ?? 0) + 1;
+  }
+
+  async fetchAnalysisRuns(): Promise<AnalysisRun[]> {
+    const rows = await this.driver.query(`
+      SELECT id, provider, model, prompt_version, created_at, description
+      FROM analysis_runs
+      ORDER BY created_at DESC
+    `);
+
+    return rows
+      .map((row) => mapAnalysisRunRow(row))
+      .filter((run): run is AnalysisRun => run !== null);
+  }
+
+  async fetchRunResponses(runId: string): Promise<LLMPolicyResponse[]> {
+    const rows = await this.driver.query(`
+      SELECT ${LLM_RESPONSE_COLUMNS.join(', ')}
+      FROM llm_responses
+      WHERE run_id = ?
+      ORDER BY party_id, chunk_index, policy_id
+    `, [runId]);
+
+    return rows.map(mapLLMResponseRow);
+  }
+
+  async createAnalysisRun(run: AnalysisRun): Promise<void> {
+    await this.driver.query(`
+      INSERT INTO analysis_runs (id, provider, model, prompt_version, created_at, description)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [run.id, run.provider, run.model, run.promptVersion, run.createdAt, run.description]);
+  }
+
+  async fetchPartyCountry(partyId: string): Promise<string | null> {
+    const rows = await this.driver.query(`SELECT country FROM parties WHERE id = ?`, [partyId]);
+    return rows.length > 0 ? String(rows[0].country) : null;
+  }
+
+  /**
+   * Inserts llm_responses rows, replacing any existing row with the same id.
+   * A replaced row whose text or scores change loses its review (a trigger
+   * from migration 12 deletes it), so it goes back to pending.
+   */
+  async upsertLLMResponses(responses: LLMPolicyResponse[]): Promise<void> {
+    const assignments = LLM_RESPONSE_COLUMNS
+      .filter((column) => column !== 'id')
+      .map((column) => `${column} = excluded.${column}`)
+      .join(', ');
+
+    for (const response of responses) {
+      await this.driver.query(`
+        INSERT INTO llm_responses (${LLM_RESPONSE_COLUMNS.join(', ')})
+        VALUES (${placeholders(LLM_RESPONSE_COLUMNS.length)})
+        ON CONFLICT (id) DO UPDATE SET ${assignments}
+      `, LLM_RESPONSE_COLUMNS.map((column) => response[column]));
+    }
+  }
+
+  private async fetchFailedChunkCounts(countryCodes: string[]): Promise<Map<string, number>> {
+    const rows = await this.driver.query(`
+      SELECT party_id, COUNT(*) AS failed
+      FROM llm_responses
+      WHERE party_id IN (SELECT id FROM parties WHERE country IN (${placeholders(countryCodes.length)})) AND error IS NOT NULL
+      GROUP BY party_id
+    `, countryCodes);
+
+    return new Map(rows.map((row) => [String(row.party_id), Number(row.failed)]));
+  }
+
+  // Out-of-range scores and unreadable categories per party, for every party
+  // or only those of `countryCodes`
+  private async fetchResponseIssueIds(countryCodes: string[] | null): Promise<Map<string, ResponseIssueIds>> {
+    const countryFilter = countryCodes
+      ? `AND party_id IN (SELECT id FROM parties WHERE country IN (${placeholders(countryCodes.length)}))`
+      : '';
+    const rows = await this.driver.query(`
+      SELECT id, party_id, econ_freedom, personal_freedom, category
+      FROM llm_responses
+      WHERE error IS NULL ${countryFilter}
+      ORDER BY id
+    `, countryCodes ?? []);
+
+    const issuesByParty = new Map<string, ResponseIssueIds>();
+    for (const row of rows) {
+      const outOfRange = isOutOfRangeScore(toNullableNumber(row.econ_freedom), toNullableNumber(row.personal_freedom));
+      const invalidCategory = !isValidCategoryJson(row.category === null || row.category === undefined ? null : String(row.category));
+      if (!outOfRange && !invalidCategory) continue;
+
+      const partyId = String(row.party_id);
+      let issues = issuesByParty.get(partyId);
+      if (!issues) {
+        issues = { outOfRangeResponseIds: [], invalidCategoryResponseIds: [] };
+        issuesByParty.set(partyId, issues);
+      }
+      if (outOfRange) {
+        issues.outOfRangeResponseIds.push(Number(row.id));
+      }
+      if (invalidCategory) {
+        issues.invalidCategoryResponseIds.push(Number(row.id));
+      }
+    }
+
+    return issuesByParty;
+  }
+
+  private async fetchPolicyScores(countryCodes: string[], reviewedOnly: boolean): Promise<Map<string, TimedPolicyScore[]>> {
+    const rows = await this.driver.query(`
+      SELECT ${REVIEWED_SCORE_SELECT}
+      FROM llm_responses lr
+      LEFT JOIN policy_reviews pr ON pr.response_id = lr.id
+      WHERE lr.party_id IN (SELECT id FROM parties WHERE country IN (${placeholders(countryCodes.length)})) AND ${publishedPolicyFilter(reviewedOnly)}
+    `, countryCodes);
+
+    const scoresByParty = new Map<string, TimedPolicyScore[]>();
+    for (const row of rows) {
+      const partyId = String(row.party_id);
+      const scores = scoresByParty.get(partyId);
+      if (scores) {
+        scores.push(mapPolicyScoreRow(row));
+      } else {
+        scoresByParty.set(partyId, [mapPolicyScoreRow(row)]);
+      }
+    }
+
+    return scoresByParty;
+  }
+}
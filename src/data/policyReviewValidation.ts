@@ -0,0 +1,86 @@
+import type { PolicyReviewInput } from '../types/political';
+import { parsePolicyImpact } from '../lib/partyPositions.js';
+import { isReviewStatus } from './partyMappers.js';
+
+// Validation for reviews submitted through the review API. Edited reviews
+// must carry a full set of corrected values (a null score keeps the model's);
+// other statuses carry none.
+
+export type PolicyReviewValidationResult =
+  | { ok: true; value: PolicyReviewInput }
+  | { ok: false; errors: string[] };
+
+const AXIS_MIN = -10;
+const AXIS_MAX = 10;
+const MAX_TEXT_LENGTH = 2000;
+
+function readOptionalText(value: unknown, field: string, errors: string[]): string | null {
+  if (value === null || value === undefined || (typeof value === 'string' && value.trim() === '')) {
+    return null;
+  }
+  if (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH) {
+    errors.push(`${field} must be a string of at most ${MAX_TEXT_LENGTH} characters`);
+    return null;
+  }
+  return value.trim();
+}
+
+export function validatePolicyReview(body: unknown): PolicyReviewValidationResult {
+  if (typeof body !== 'object' || body === null) {
+    return { ok: false, errors: ['request body must be a JSON object'] };
+  }
+
+  const record = body as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const responseId = record.responseId;
+  if (typeof responseId !== 'number' || !Number.isInteger(responseId) || responseId < 1) {
+    errors.push('responseId must be a positive integer');
+  }
+
+  const status = record.status;
+  if (!isReviewStatus(status)) {
+    errors.push('status must be one of pending, approved, rejected, edited');
+  }
+
+  const reviewer = readOptionalText(record.reviewer, 'reviewer', errors);
+  const note = readOptionalText(record.note, 'note', errors);
+
+  const value: PolicyReviewInput = {
+    responseId: responseId as number,
+    status: isReviewStatus(status) ? status : 'pending',
+    reviewer,
+    note
+  };
+
+  if (status === 'edited') {
+    const axis = (field: 'econFreedom' | 'personalFreedom'): number | null => {
+      const score = record[field];
+      if (score === null) {
+        return null;
+      }
+      if (typeof score !== 'number' || !Number.isFinite(score) || score < AXIS_MIN || score > AXIS_MAX) {
+        errors.push(`${field} must be null or a number between ${AXIS_MIN} and ${AXIS_MAX}`);
+        return null;
+      }
+      return score;
+    };
+
+    value.econFreedom = axis('econFreedom');
+    value.personalFreedom = axis('personalFreedom');
+
+    value.impact = parsePolicyImpact(record.impact);
+    if (value.impact === null) {
+      errors.push('impact must be one of high, medium, low');
+    }
+
+    const categories = record.categories;
+    if (!Array.isArray(categories) || !categories.every((category) => typeof category === 'string' && category.trim() !== '')) {
+      errors.push('categories must be an array of non-empty strings');
+    } else {
+      value.categories = categories.map((category) => category.trim());
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
@@ -0,0 +1,92 @@
+import type { Database } from 'sql.js';
+
+// Drivers hide the differences between sql.js (Node and browser) and Postgres
+// so that PartyRepository queries are written once. Queries use `?`
+// placeholders; the Postgres driver rewrites them to `$1, $2, ...`.
+
+export type SqlRow = Record<string, unknown>;
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+export interface SqlDriver {
+  dialect: SqlDialect;
+  query(sql: string, params?: unknown[]): Promise<SqlRow[]>;
+  // Runs `work` inside BEGIN/COMMIT on a single connection and rolls back if it throws
+  transaction<T>(work: (driver: SqlDriver) => Promise<T>): Promise<T>;
+}
+
+export type PgClient = {
+  query: (text: string, params?: unknown[]) => Promise<{ rows: SqlRow[] }>;
+};
+
+// `connect` checks out a dedicated connection; pools without it (the Neon
+// HTTP adapter) send every query separately and cannot hold a transaction
+export type PgPool = PgClient & {
+  connect?: () => Promise<PgClient & { release: () => void }>;
+};
+
+async function inTransaction<T>(driver: SqlDriver, work: (driver: SqlDriver) => Promise<T>): Promise<T> {
+  await driver.query('BEGIN');
+  try {
+    const result = await work(driver);
+    await driver.query('COMMIT');
+    return result;
+  } catch (error) {
+    await driver.query('ROLLBACK');
+    throw error;
+  }
+}
+
+export function createSqlJsDriver(db: Database): SqlDriver {
+  const driver: SqlDriver = {
+    dialect: 'sqlite',
+    async query(sql: string, params: unknown[] = []) {
+      const result = db.exec(sql, params as (string | number | null)[]);
+      if (result.length === 0) {
+        return [];
+      }
+
+      const { columns, values } = result[0];
+      return values.map((row) => {
+        const record: SqlRow = {};
+        columns.forEach((column, index) => {
+          record[column] = row[index];
+        });
+        return record;
+      });
+    },
+    transaction: (work) => inTransaction(driver, work)
+  };
+  return driver;
+}
+
+function toPostgresPlaceholders(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
+
+export function createPostgresDriver(pool: PgPool): SqlDriver {
+  return {
+    dialect: 'postgres',
+    async query(sql: string, params: unknown[] = []) {
+      const { rows } = await pool.query(toPostgresPlaceholders(sql), params);
+      return rows;
+    },
+    async transaction(work) {
+      if (!pool.connect) {
+        throw new Error('This Postgres connection cannot run transactions; connect with the "pg" driver instead.');
+      }
+
+      const client = await pool.connect();
+      try {
+        return await inTransaction(createPostgresDriver(client), work);
+      } finally {
+        client.release();
+      }
+    }
+  };
+}
+
+export function placeholders(count: number): string {
+  return Array.from({ length: count }, () => '?').join(', ');
+}
@@ -0,0 +1,15 @@
+import * as React from "react"
+
+// Token for the reviewer/admin API (REVIEW_API_TOKEN), kept for the browser
+// session only and shared by every admin page
+const TOKEN_STORAGE_KEY = "policy-review-token"
+
+export function useAdminToken() {
+  const [token, setToken] = React.useState(() => sessionStorage.getItem(TOKEN_STORAGE_KEY) ?? "")
+
+  React.useEffect(() => {
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, token)
+  }, [token])
+
+  return [token, setToken] as const
+}
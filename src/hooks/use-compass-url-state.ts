@@ -0,0 +1,65 @@
+import * as React from "react"
+import { useSearchParams } from "react-router-dom"
+import { normalizePartySlug } from "@/lib/partySlugs"
+import { Ideology } from "@/types/political"
+
+// Compass view state kept in the query string, so a view can be shared as a
+// link and browser back/forward steps through changes:
+//   /?country=DE&country=AT&hide=green&q=union&party=de-cdu
+export interface CompassUrlStateChanges {
+  countryCodes?: string[]
+  hiddenIdeologies?: Set<Ideology>
+  searchQuery?: string
+  partySlug?: string | null
+}
+
+export function useCompassUrlState() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const countryParams = searchParams.getAll("country").join(",")
+  const countryCodes = React.useMemo(
+    () => [...new Set(countryParams.split(",").filter(Boolean).map((code) => code.toUpperCase()))],
+    [countryParams]
+  )
+  const hiddenParams = searchParams.getAll("hide").join(",")
+  const hiddenIdeologies = React.useMemo(
+    () => new Set<Ideology>(hiddenParams.split(",").filter(Boolean)),
+    [hiddenParams]
+  )
+  const searchQuery = searchParams.get("q") ?? ""
+  const partyParam = searchParams.get("party")
+  const partySlug = partyParam === null ? null : normalizePartySlug(partyParam)
+
+  // Typing in the search box replaces the current entry instead of adding one
+  // per keystroke; every other change is a new history entry
+  const updateUrlState = React.useCallback(
+    (changes: CompassUrlStateChanges) => {
+      setSearchParams(
+        (current) => {
+          const next = new URLSearchParams(current)
+          if (changes.countryCodes) {
+            next.delete("country")
+            changes.countryCodes.forEach((code) => next.append("country", code))
+          }
+          if (changes.hiddenIdeologies) {
+            next.delete("hide")
+            changes.hiddenIdeologies.forEach((ideology) => next.append("hide", ideology))
+          }
+          if (changes.searchQuery !== undefined) {
+            if (changes.searchQuery) next.set("q", changes.searchQuery)
+            else next.delete("q")
+          }
+          if (changes.partySlug !== undefined) {
+            if (changes.partySlug) next.set("party", changes.partySlug)
+            else next.delete("party")
+          }
+          return next
+        },
+        { replace: Object.keys(changes).every((key) => key === "searchQuery") }
+      )
+    },
+    [setSearchParams]
+  )
+
+  return { countryCodes, hiddenIdeologies, searchQuery, partySlug, updateUrlState }
+}
@@ -0,0 +1,35 @@
+import * as React from "react"
+import { CountryGroup } from "@/lib/countryGroups"
+
+// User-defined country groups, kept in localStorage so they survive reloads
+const GROUPS_STORAGE_KEY = "country-groups"
+
+function loadGroups(): CountryGroup[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GROUPS_STORAGE_KEY) ?? "[]")
+    return Array.isArray(stored)
+      ? stored.filter((group) => typeof group?.name === "string" && Array.isArray(group?.codes))
+      : []
+  } catch {
+    return []
+  }
+}
+
+export function useCountryGroups() {
+  const [groups, setGroups] = React.useState<CountryGroup[]>(loadGroups)
+
+  React.useEffect(() => {
+    localStorage.setItem(GROUPS_STORAGE_KEY, JSON.stringify(groups))
+  }, [groups])
+
+  const saveGroup = React.useCallback((name: string, codes: string[]) => {
+    const group: CountryGroup = { id: `custom-${Date.now()}`, name, codes, custom: true }
+    setGroups((current) => [...current.filter((existing) => existing.name !== name), group])
+  }, [])
+
+  const deleteGroup = React.useCallback((id: string) => {
+    setGroups((current) => current.filter((group) => group.id !== id))
+  }, [])
+
+  return { groups, saveGroup, deleteGroup }
+}
@@ -0,0 +1,17 @@
+import * as React from "react"
+
+const SITE_TITLE = "World Political Compass"
+
+// Sets the browser tab title (and the title search engines index) while a
+// page is mounted, restoring the previous one afterwards
+export function useDocumentTitle(title: string | null) {
+  React.useEffect(() => {
+    if (title === null) return
+
+    const previous = document.title
+    document.title = `${title} · ${SITE_TITLE}`
+    return () => {
+      document.title = previous
+    }
+  }, [title])
+}
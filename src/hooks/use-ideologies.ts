@@ -0,0 +1,35 @@
+import * as React from "react"
+import { useQuery } from "@tanstack/react-query"
+import { fetchIdeologies } from "@/data/databaseService"
+import { buildIdeologySchemes } from "@/lib/ideologyClassifier"
+import { Ideology, IdeologyDefinition, UNKNOWN_IDEOLOGY_COLOR } from "@/types/political"
+
+// Ideology labels, colours and descriptions from the `ideologies` table,
+// and the classification schemes they configure. `getIdeology` never fails:
+// ids without a row get their id as the label and a neutral colour.
+export function useIdeologies() {
+  const { data: ideologies = [], isLoading } = useQuery({
+    queryKey: ["ideologies"],
+    queryFn: fetchIdeologies,
+    staleTime: Infinity,
+  })
+
+  const getIdeology = React.useCallback(
+    (id: Ideology): IdeologyDefinition =>
+      ideologies.find((ideology) => ideology.id === id) ?? {
+        id,
+        label: id,
+        color: UNKNOWN_IDEOLOGY_COLOR,
+        description: null,
+        sortOrder: Number.MAX_SAFE_INTEGER,
+        rules: [],
+        quadrant: null,
+        centroid: null,
+      },
+    [ideologies]
+  )
+
+  const schemes = React.useMemo(() => buildIdeologySchemes(ideologies), [ideologies])
+
+  return { ideologies, getIdeology, schemes, isLoading }
+}
@@ -0,0 +1,19 @@
+import type { ElectoralSystem } from '../types/political';
+
+// Country helpers shared between the API and the browser fallback.
+
+export const ELECTORAL_SYSTEMS: ElectoralSystem[] = ['proportional', 'majoritarian', 'mixed'];
+
+/** Flag emoji for an ISO 3166 alpha-2 code, built from regional indicator symbols. */
+export function flagEmoji(alpha2: string): string {
+  const code = alpha2.toUpperCase();
+  if (!/^[A-Z]{2}$/.test(code)) {
+    return '';
+  }
+
+  return String.fromCodePoint(...[...code].map((letter) => 0x1f1e6 + letter.charCodeAt(0) - 65));
+}
+
+export function parseElectoralSystem(value: unknown): ElectoralSystem | null {
+  return typeof value === 'string' && (ELECTORAL_SYSTEMS as string[]).includes(value) ? value as ElectoralSystem : null;
+}
@@ -0,0 +1,50 @@
+import type { Country } from '../types/political';
+
+// Named sets of countries that CountrySelector can select in one step.
+// Predefined groups list alpha-2 codes; EU27 follows the countries table.
+
+export interface CountryGroup {
+  id: string;
+  name: string;
+  codes: string[];
+  custom?: boolean; // defined by the user in this browser
+}
+
+export const PREDEFINED_COUNTRY_GROUPS: CountryGroup[] = [
+  { id: 'v4', name: 'Visegrád Group (V4)', codes: ['CZ', 'HU', 'PL', 'SK'] },
+  { id: 'dach', name: 'DACH', codes: ['DE', 'AT', 'CH'] },
+  { id: 'benelux', name: 'Benelux', codes: ['BE', 'NL', 'LU'] },
+  { id: 'nordics', name: 'Nordic countries', codes: ['DK', 'FI', 'NO', 'SE'] },
+  { id: 'baltics', name: 'Baltic states', codes: ['EE', 'LV', 'LT'] },
+  { id: 'g7', name: 'G7', codes: ['CA', 'FR', 'DE', 'IT', 'JP', 'GB', 'US'] }
+];
+
+/** Predefined groups plus EU27, built from the countries' EU membership. */
+export function predefinedCountryGroups(countries: Country[]): CountryGroup[] {
+  const eu27: CountryGroup = {
+    id: 'eu27',
+    name: 'EU27',
+    codes: countries.filter((country) => country.euMember).map((country) => country.code)
+  };
+  return [eu27, ...PREDEFINED_COUNTRY_GROUPS];
+}
+
+/** The group's members among `countries`, in the order of `countries`. */
+export function groupMembers(group: CountryGroup, countries: Country[]): Country[] {
+  return countries.filter((country) => group.codes.includes(country.code));
+}
+
+const UNKNOWN_REGION = 'Other';
+
+/** Countries grouped by region, regions and countries sorted by name. */
+export function countriesByRegion(countries: Country[]): Array<[string, Country[]]> {
+  const regions = new Map<string, Country[]>();
+  for (const country of countries) {
+    const region = country.region ?? UNKNOWN_REGION;
+    regions.set(region, [...(regions.get(region) ?? []), country]);
+  }
+
+  return [...regions.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([region, members]) => [region, [...members].sort((a, b) => a.name.localeCompare(b.name))]);
+}
@@ -0,0 +1,167 @@
+import type { DataQualityIssue, DataQualityIssueKind, DataQualityReport, PartyDataQuality } from '../types/political';
+
+// Data-quality checks shared by the quality report (CLI and /api/quality) and
+// the per-party flags served with every party.
+
+export const DEFAULT_MAX_ERROR_RATIO = 0.25;
+const AXIS_MIN = -10;
+const AXIS_MAX = 10;
+
+export const DATA_QUALITY_ISSUE_KINDS: DataQualityIssueKind[] = [
+  'missing_scores',
+  'missing_policies',
+  'high_error_ratio',
+  'out_of_range',
+  'invalid_category'
+];
+
+export const DATA_QUALITY_LABELS: Record<DataQualityIssueKind, string> = {
+  missing_scores: 'Missing compass scores',
+  missing_policies: 'No analysed policies',
+  high_error_ratio: 'Many failed analysis chunks',
+  out_of_range: 'Scores outside -10 to 10',
+  invalid_category: 'Unreadable policy categories'
+};
+
+// Aggregates for one party, as collected by PartyRepository.fetchQualityStats
+export interface PartyQualityStats {
+  partyId: string;
+  partyName: string;
+  country: string;
+  storedEconFreedom: number | null;
+  storedPersonalFreedom: number | null;
+  responseCount: number; // llm_responses rows, including failed chunks
+  errorCount: number;
+  econScoredCount: number; // successful rows with an econ_freedom score
+  personalScoredCount: number;
+  outOfRangeResponseIds: number[];
+  invalidCategoryResponseIds: number[];
+}
+
+// Successful llm_responses rows of one party that the checks flag
+export type ResponseIssueIds = Pick<PartyQualityStats, 'outOfRangeResponseIds' | 'invalidCategoryResponseIds'>;
+
+export interface DataQualityOptions {
+  maxErrorRatio?: number;
+}
+
+function isOutOfRange(value: number | null): boolean {
+  return value !== null && (value < AXIS_MIN || value > AXIS_MAX);
+}
+
+export function isOutOfRangeScore(econFreedom: number | null, personalFreedom: number | null): boolean {
+  return isOutOfRange(econFreedom) || isOutOfRange(personalFreedom);
+}
+
+/** True when `category` holds a JSON array of strings (or nothing at all). */
+export function isValidCategoryJson(category: string | null): boolean {
+  if (category === null || category.trim() === '') {
+    return true;
+  }
+
+  try {
+    const parsed = JSON.parse(category);
+    return Array.isArray(parsed) && parsed.every((entry) => typeof entry === 'string');
+  } catch {
+    return false;
+  }
+}
+
+function errorRatio(errorCount: number, responseCount: number): number {
+  return responseCount === 0 ? 0 : errorCount / responseCount;
+}
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+/**
+ * Issues found in one party's data. An axis counts as missing when no scored
+ * policy provides it and there is no complete stored position (both axes) to
+ * fall back on, i.e. when the party would be drawn at 0 on that axis.
+ */
+export function partyQualityIssues(stats: PartyQualityStats, { maxErrorRatio = DEFAULT_MAX_ERROR_RATIO }: DataQualityOptions = {}): DataQualityIssue[] {
+  const issues: DataQualityIssue[] = [];
+
+  const hasStoredPosition = stats.storedEconFreedom !== null && stats.storedPersonalFreedom !== null;
+  const missingAxes = [
+    !hasStoredPosition && stats.econScoredCount === 0 ? 'economic' : null,
+    !hasStoredPosition && stats.personalScoredCount === 0 ? 'personal' : null
+  ].filter((axis): axis is string => axis !== null);
+  if (missingAxes.length > 0) {
+    issues.push({
+      kind: 'missing_scores',
+      message: `No policy-derived ${missingAxes.join(' or ')} score and no complete stored position; placed at 0 on ${missingAxes.length === 2 ? 'both axes' : 'that axis'}`
+    });
+  }
+
+  const policyCount = stats.responseCount - stats.errorCount;
+  if (policyCount === 0) {
+    issues.push({
+      kind: 'missing_policies',
+      message: stats.responseCount === 0 ? 'No llm_responses rows' : `All ${plural(stats.responseCount, 'row')} are failed chunks`
+    });
+  }
+
+  const ratio = errorRatio(stats.errorCount, stats.responseCount);
+  if (stats.errorCount > 0 && ratio > maxErrorRatio) {
+    issues.push({
+      kind: 'high_error_ratio',
+      message: `${plural(stats.errorCount, 'failed chunk')} out of ${plural(stats.responseCount, 'row')} (${Math.round(ratio * 100)}%)`
+    });
+  }
+
+  const storedOutOfRange = isOutOfRangeScore(stats.storedEconFreedom, stats.storedPersonalFreedom);
+  if (storedOutOfRange || stats.outOfRangeResponseIds.length > 0) {
+    issues.push({
+      kind: 'out_of_range',
+      message: [
+        storedOutOfRange ? 'stored party score is outside -10 to 10' : null,
+        stats.outOfRangeResponseIds.length > 0 ? `${plural(stats.outOfRangeResponseIds.length, 'policy', 'policies')} with scores outside -10 to 10` : null
+      ].filter(Boolean).join('; '),
+      responseIds: stats.outOfRangeResponseIds
+    });
+  }
+
+  if (stats.invalidCategoryResponseIds.length > 0) {
+    issues.push({
+      kind: 'invalid_category',
+      message: `${plural(stats.invalidCategoryResponseIds.length, 'policy', 'policies')} with unparsable category JSON`,
+      responseIds: stats.invalidCategoryResponseIds
+    });
+  }
+
+  return issues;
+}
+
+export function buildDataQualityReport(stats: PartyQualityStats[], options: DataQualityOptions = {}): DataQualityReport {
+  const maxErrorRatio = options.maxErrorRatio ?? DEFAULT_MAX_ERROR_RATIO;
+  const issueCounts = Object.fromEntries(DATA_QUALITY_ISSUE_KINDS.map((kind) => [kind, 0])) as Record<DataQualityIssueKind, number>;
+
+  const parties: PartyDataQuality[] = stats
+    .map((party) => ({
+      partyId: party.partyId,
+      partyName: party.partyName,
+      country: party.country,
+      responseCount: party.responseCount,
+      errorCount: party.errorCount,
+      policyCount: party.responseCount - party.errorCount,
+      issues: partyQualityIssues(party, { maxErrorRatio })
+    }))
+    .filter((party) => party.issues.length > 0);
+
+  for (const party of parties) {
+    for (const issue of party.issues) {
+      issueCounts[issue.kind] += 1;
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    maxErrorRatio,
+    partyCount: stats.length,
+    partiesWithIssues: parties.length,
+    issueCounts,
+    parties
+  };
+}
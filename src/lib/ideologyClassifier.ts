@@ -0,0 +1,222 @@
+import type {
+  AxisRange,
+  ClassificationScheme,
+  CompassPosition,
+  CompassQuadrant,
+  Ideology,
+  IdeologyDefinition,
+  IdeologyRegion
+} from '../types/political';
+
+// Ideology classification schemes. The default scheme is a rule set: an
+// ordered list of regions on the compass where a party gets the ideology of
+// the first region that contains it, or the fallback when none does. The
+// other schemes are alternatives analysts can switch to. Every scheme is
+// configured by the `ideologies` and `ideology_rules` tables, so both
+// backends classify the same way and new ideologies can take part in all of
+// them without a code change.
+
+export interface IdeologyRule {
+  ideology: Ideology;
+  region: IdeologyRegion;
+}
+
+export interface IdeologyRuleSet {
+  fallback: Ideology;
+  rules: IdeologyRule[];
+}
+
+export interface IdeologySchemes {
+  ruleSet: IdeologyRuleSet;
+  quadrants: Partial<Record<CompassQuadrant, Ideology>>;
+  centroids: Array<{ ideology: Ideology; centroid: CompassPosition }>;
+}
+
+// Given by the rule scheme when no rule matches and none covers the whole compass
+export const UNCLASSIFIED_IDEOLOGY: Ideology = 'unclassified';
+
+// The quadrant scheme's centre: within this distance of the origin on both axes
+export const QUADRANT_CENTRE_SIZE = 1;
+
+export const COMPASS_QUADRANTS: CompassQuadrant[] = [
+  'centre',
+  'left-libertarian',
+  'left-authoritarian',
+  'right-libertarian',
+  'right-authoritarian'
+];
+
+const AXIS_LIMIT = 10;
+
+function inRange(value: number, range: AxisRange | undefined): boolean {
+  if (!range) return true;
+  const [min, max] = range;
+  return (min === null || value > min) && (max === null || value < max);
+}
+
+// Ray casting; points exactly on an edge may fall either way
+function inPolygon(x: number, y: number, points: Array<[number, number]>): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function regionContains(region: IdeologyRegion, { econFreedom, personalFreedom }: CompassPosition): boolean {
+  return region.type === 'bounds'
+    ? inRange(econFreedom, region.econ) && inRange(personalFreedom, region.personal)
+    : inPolygon(econFreedom, personalFreedom, region.points);
+}
+
+function isUnbounded(region: IdeologyRegion): boolean {
+  return region.type === 'bounds'
+    && (region.econ ?? [null, null]).every((bound) => bound === null)
+    && (region.personal ?? [null, null]).every((bound) => bound === null);
+}
+
+function isAxisRange(value: unknown): value is AxisRange {
+  return Array.isArray(value) && value.length === 2
+    && value.every((bound) => bound === null || (typeof bound === 'number' && Number.isFinite(bound)));
+}
+
+/** A region stored as JSON in `ideology_rules.region`, or null when it isn't one. */
+export function parseIdeologyRegion(json: string | null): IdeologyRegion | null {
+  if (!json) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    console.warn('Failed to parse ideology region JSON:', json);
+    return null;
+  }
+
+  const region = parsed as Record<string, unknown> | null;
+  if (region?.type === 'bounds'
+    && (region.econ === undefined || isAxisRange(region.econ))
+    && (region.personal === undefined || isAxisRange(region.personal))) {
+    return region as IdeologyRegion;
+  }
+  if (region?.type === 'polygon' && Array.isArray(region.points) && region.points.length >= 3
+    && region.points.every((point) => isAxisRange(point) && point.every((value) => value !== null))) {
+    return region as IdeologyRegion;
+  }
+
+  console.warn('Ignoring invalid ideology region:', json);
+  return null;
+}
+
+export function parseCompassQuadrant(value: unknown): CompassQuadrant | null {
+  return COMPASS_QUADRANTS.includes(value as CompassQuadrant) ? value as CompassQuadrant : null;
+}
+
+/**
+ * Every scheme's configuration from the ideology rows. Rules run in `order`
+ * across ideologies; a last rule covering the whole compass becomes the
+ * fallback. When two ideologies claim the same quadrant the first one wins.
+ */
+export function buildIdeologySchemes(definitions: IdeologyDefinition[]): IdeologySchemes {
+  const rules = definitions
+    .flatMap((definition) => definition.rules.map((rule) => ({ ...rule, ideology: definition.id })))
+    .sort((a, b) => a.order - b.order)
+    .map(({ ideology, region }): IdeologyRule => ({ ideology, region }));
+  const fallbackRule = rules.length > 0 && isUnbounded(rules[rules.length - 1].region) ? rules.pop()! : null;
+
+  const quadrants: Partial<Record<CompassQuadrant, Ideology>> = {};
+  for (const definition of definitions) {
+    if (definition.quadrant && !quadrants[definition.quadrant]) {
+      quadrants[definition.quadrant] = definition.id;
+    }
+  }
+
+  return {
+    ruleSet: { fallback: fallbackRule?.ideology ?? UNCLASSIFIED_IDEOLOGY, rules },
+    quadrants,
+    centroids: definitions
+      .filter((definition) => definition.centroid !== null)
+      .map((definition) => ({ ideology: definition.id, centroid: definition.centroid! }))
+  };
+}
+
+export function classifyIdeology(position: CompassPosition, ruleSet: IdeologyRuleSet): Ideology {
+  return ruleSet.rules.find((rule) => regionContains(rule.region, position))?.ideology ?? ruleSet.fallback;
+}
+
+/** The compass quadrant a position is in, or the centre within QUADRANT_CENTRE_SIZE of the origin. */
+export function compassQuadrant({ econFreedom, personalFreedom }: CompassPosition): CompassQuadrant {
+  if (Math.abs(econFreedom) < QUADRANT_CENTRE_SIZE && Math.abs(personalFreedom) < QUADRANT_CENTRE_SIZE) {
+    return 'centre';
+  }
+  const side = econFreedom < 0 ? 'left' : 'right';
+  return personalFreedom >= 0 ? `${side}-libertarian` : `${side}-authoritarian`;
+}
+
+/** Ideology naming the position's quadrant, or null when no ideology claims it. */
+export function classifyByQuadrant(position: CompassPosition, quadrants: IdeologySchemes['quadrants']): Ideology | null {
+  return quadrants[compassQuadrant(position)] ?? null;
+}
+
+/** Ideology whose centroid is closest; ties go to the earlier centroid. */
+export function classifyByNearestCentroid(
+  { econFreedom, personalFreedom }: CompassPosition,
+  centroids: IdeologySchemes['centroids']
+): Ideology | null {
+  let nearest: Ideology | null = null;
+  let nearestDistance = Infinity;
+
+  for (const { ideology, centroid } of centroids) {
+    const distance = Math.hypot(econFreedom - centroid.econFreedom, personalFreedom - centroid.personalFreedom);
+    if (distance < nearestDistance) {
+      nearest = ideology;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+export function parseIdeology(value: unknown): Ideology | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+/** A party's ideology under every scheme; `externalLabel` is the party's stored external label. */
+export function classifyAllSchemes(
+  position: CompassPosition,
+  externalLabel: Ideology | null,
+  schemes: IdeologySchemes
+): Record<ClassificationScheme, Ideology | null> {
+  return {
+    rules: classifyIdeology(position, schemes.ruleSet),
+    quadrant: classifyByQuadrant(position, schemes.quadrants),
+    centroid: classifyByNearestCentroid(position, schemes.centroids),
+    external: externalLabel
+  };
+}
+
+/**
+ * Vertices of a region clipped to the visible compass, for drawing previews.
+ * Bounds become rectangles; polygons are returned as defined.
+ */
+export function regionPolygon(region: IdeologyRegion): Array<[number, number]> {
+  if (region.type === 'polygon') {
+    return region.points;
+  }
+
+  const clamp = (value: number | null, unbounded: number) =>
+    value === null ? unbounded : Math.max(-AXIS_LIMIT, Math.min(AXIS_LIMIT, value));
+  const [econMin, econMax] = region.econ ?? [null, null];
+  const [personalMin, personalMax] = region.personal ?? [null, null];
+  const left = clamp(econMin, -AXIS_LIMIT);
+  const right = clamp(econMax, AXIS_LIMIT);
+  const bottom = clamp(personalMin, -AXIS_LIMIT);
+  const top = clamp(personalMax, AXIS_LIMIT);
+
+  return [[left, bottom], [right, bottom], [right, top], [left, top]];
+}
@@ -0,0 +1,83 @@
+import type { CompassPosition, PoliticalParty, PolicyAnalysis } from '../types/political';
+import { POLICY_CATEGORIES, POLICY_CATEGORY_AXES, PolicyCategory, policyCategory } from './policyCategories.js';
+
+// Side-by-side comparison of a handful of parties: how far apart they sit on
+// the compass and which of their policies account for the difference.
+
+export const MIN_COMPARED_PARTIES = 2;
+export const MAX_COMPARED_PARTIES = 4;
+
+export interface PartyPairComparison {
+  first: PoliticalParty;
+  second: PoliticalParty;
+  econDifference: number; // second minus first
+  personalDifference: number;
+  distance: number; // Euclidean, in compass units
+}
+
+export interface AlignedPolicyColumn {
+  policies: PolicyAnalysis[]; // sorted by their score on the category's axis, highest first
+  meanScore: number | null; // mean score on the category's axis, null without scored policies
+}
+
+// One category row with a column per compared party, in the parties' order
+export interface AlignedPolicyCategory {
+  category: PolicyCategory;
+  axis: keyof CompassPosition | null;
+  columns: AlignedPolicyColumn[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function positionDistance(a: CompassPosition, b: CompassPosition): number {
+  return Math.hypot(b.econFreedom - a.econFreedom, b.personalFreedom - a.personalFreedom);
+}
+
+/** Every pair of parties, in list order, with the gap between their positions. */
+export function comparePartyPairs(parties: PoliticalParty[]): PartyPairComparison[] {
+  const pairs: PartyPairComparison[] = [];
+  parties.forEach((first, index) => {
+    parties.slice(index + 1).forEach((second) => {
+      pairs.push({
+        first,
+        second,
+        econDifference: round(second.econFreedom - first.econFreedom),
+        personalDifference: round(second.personalFreedom - first.personalFreedom),
+        distance: round(positionDistance(first, second))
+      });
+    });
+  });
+  return pairs;
+}
+
+function alignColumn(policies: PolicyAnalysis[], axis: keyof CompassPosition | null): AlignedPolicyColumn {
+  if (axis === null) {
+    return { policies, meanScore: null };
+  }
+
+  const scores = policies.map((policy) => policy[axis]).filter((score): score is number => score !== null);
+  return {
+    policies: [...policies].sort((a, b) => (b[axis] ?? -Infinity) - (a[axis] ?? -Infinity)),
+    meanScore: scores.length > 0 ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null
+  };
+}
+
+/**
+ * Lines the parties' policies up by category, one list per party, so the
+ * policies behind a gap on an axis can be read across a row. Categories none
+ * of the parties has policies in are left out.
+ */
+export function alignPoliciesByCategory(policyLists: PolicyAnalysis[][]): AlignedPolicyCategory[] {
+  return POLICY_CATEGORIES
+    .map((category) => {
+      const axis = POLICY_CATEGORY_AXES[category];
+      return {
+        category,
+        axis,
+        columns: policyLists.map((policies) => alignColumn(policies.filter((policy) => policyCategory(policy) === category), axis))
+      };
+    })
+    .filter((row) => row.columns.some((column) => column.policies.length > 0));
+}
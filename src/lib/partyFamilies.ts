@@ -0,0 +1,69 @@
+import type { CompassPosition, PartyFamily } from '../types/political';
+
+// European party families (European Parliament groups). Shared between the
+// API, which parses `parties.party_family`, and the browser.
+
+export const PARTY_FAMILIES: PartyFamily[] = ['epp', 'sd', 'renew', 'greens_efa', 'ecr', 'id', 'left', 'ni'];
+
+export const PARTY_FAMILY_LABELS: Record<PartyFamily, string> = {
+  epp: 'EPP',
+  sd: 'S&D',
+  renew: 'Renew',
+  greens_efa: 'Greens/EFA',
+  ecr: 'ECR',
+  id: 'ID',
+  left: 'Left',
+  ni: 'Non-inscrits'
+};
+
+export const PARTY_FAMILY_COLORS: Record<PartyFamily, string> = {
+  epp: '#3399ff',
+  sd: '#e3001b',
+  renew: '#ffd700',
+  greens_efa: '#57b45f',
+  ecr: '#0054a5',
+  id: '#2b3856',
+  left: '#990000',
+  ni: '#999999'
+};
+
+// Filter key for parties without a mapped family
+export const NO_PARTY_FAMILY = 'none';
+export type PartyFamilyFilter = PartyFamily | typeof NO_PARTY_FAMILY;
+
+export function parsePartyFamily(value: unknown): PartyFamily | null {
+  return typeof value === 'string' && (PARTY_FAMILIES as string[]).includes(value) ? value as PartyFamily : null;
+}
+
+function cross(origin: CompassPosition, a: CompassPosition, b: CompassPosition): number {
+  return (a.econFreedom - origin.econFreedom) * (b.personalFreedom - origin.personalFreedom)
+    - (a.personalFreedom - origin.personalFreedom) * (b.econFreedom - origin.econFreedom);
+}
+
+/**
+ * Convex hull of the positions, counter-clockwise (Andrew's monotone chain).
+ * Fewer than three distinct positions come back as they are.
+ */
+export function convexHull(positions: CompassPosition[]): CompassPosition[] {
+  const sorted = [...positions].sort((a, b) => a.econFreedom - b.econFreedom || a.personalFreedom - b.personalFreedom);
+  const unique = sorted.filter((position, index) =>
+    index === 0 || position.econFreedom !== sorted[index - 1].econFreedom || position.personalFreedom !== sorted[index - 1].personalFreedom
+  );
+  if (unique.length < 3) {
+    return unique;
+  }
+
+  const buildChain = (points: CompassPosition[]) => {
+    const chain: CompassPosition[] = [];
+    for (const point of points) {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], point) <= 0) {
+        chain.pop();
+      }
+      chain.push(point);
+    }
+    chain.pop();
+    return chain;
+  };
+
+  return [...buildChain(unique), ...buildChain([...unique].reverse())];
+}
@@ -0,0 +1,86 @@
+import type { CompassPosition, PartyPositionHistory, PartyPositionSnapshot } from '../types/political';
+import { PolicyScore, derivePartyPosition } from './partyPositions.js';
+
+// Shared between the API and the browser fallback like partyPositions.ts.
+
+export interface TimedPolicyScore extends PolicyScore {
+  timestamp: string | null;
+}
+
+function snapshotDate(timestamp: string | null): string | null {
+  if (!timestamp) {
+    return null;
+  }
+
+  const parsed = new Date(timestamp);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+}
+
+/**
+ * Builds one snapshot per analysis day, each derived from every policy
+ * analysed up to and including that day, so the latest snapshot is the
+ * party's derived position. Rows without a usable timestamp cannot be placed
+ * in time and are skipped.
+ */
+export function buildPartyHistory(partyId: string, scores: TimedPolicyScore[]): PartyPositionHistory {
+  const scoresByDate = new Map<string, PolicyScore[]>();
+
+  for (const score of scores) {
+    const date = snapshotDate(score.timestamp);
+    if (!date) continue;
+
+    const dated = scoresByDate.get(date);
+    if (dated) {
+      dated.push(score);
+    } else {
+      scoresByDate.set(date, [score]);
+    }
+  }
+
+  const snapshots: PartyPositionSnapshot[] = [];
+  const cumulative: PolicyScore[] = [];
+  for (const date of [...scoresByDate.keys()].sort()) {
+    cumulative.push(...scoresByDate.get(date)!);
+    const position = derivePartyPosition(cumulative);
+    if (position) {
+      snapshots.push({ date, position, policyCount: cumulative.length });
+    }
+  }
+
+  return { partyId, snapshots };
+}
+
+export function historyDates(histories: PartyPositionHistory[]): string[] {
+  const dates = new Set<string>();
+  histories.forEach((history) => history.snapshots.forEach((snapshot) => dates.add(snapshot.date)));
+  return [...dates].sort();
+}
+
+/**
+ * Returns the party's position as of `date` (its latest snapshot on or before
+ * that day) together with the snapshot it moved from, if any.
+ */
+export function positionAt(
+  history: PartyPositionHistory,
+  date: string
+): { position: CompassPosition; previous: CompassPosition | null; isBeforeFirstSnapshot: boolean } | null {
+  const { snapshots } = history;
+  if (snapshots.length === 0) {
+    return null;
+  }
+
+  let index = -1;
+  for (let i = 0; i < snapshots.length && snapshots[i].date <= date; i++) {
+    index = i;
+  }
+
+  if (index === -1) {
+    return { position: snapshots[0].position, previous: null, isBeforeFirstSnapshot: true };
+  }
+
+  return {
+    position: snapshots[index].position,
+    previous: index > 0 ? snapshots[index - 1].position : null,
+    isBeforeFirstSnapshot: false
+  };
+}
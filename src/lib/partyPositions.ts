@@ -0,0 +1,115 @@
+import type { CompassPosition, PolicyImpact, PositionSource } from '../types/political';
+
+// Shared between the API (api/databaseService.ts) and the browser fallback,
+// so keep this module free of path aliases and runtime-specific imports.
+
+export interface PolicyScore {
+  econFreedom: number | null;
+  personalFreedom: number | null;
+  weight: number | null;
+  impact: PolicyImpact | null;
+}
+
+export const IMPACT_WEIGHTS: Record<PolicyImpact, number> = {
+  high: 3,
+  medium: 2,
+  low: 1
+};
+
+export const DEFAULT_POSITION_SOURCE: PositionSource = 'derived';
+
+const AXIS_MIN = -10;
+const AXIS_MAX = 10;
+
+export function isPositionSource(value: unknown): value is PositionSource {
+  return value === 'stored' || value === 'derived';
+}
+
+export function parsePolicyImpact(value: unknown): PolicyImpact | null {
+  return value === 'high' || value === 'medium' || value === 'low' ? value : null;
+}
+
+export function policyWeight(score: PolicyScore): number {
+  const baseWeight = score.weight !== null && score.weight > 0 ? score.weight : 1;
+  return baseWeight * IMPACT_WEIGHTS[score.impact ?? 'medium'];
+}
+
+function clampAxis(value: number): number {
+  return Math.min(AXIS_MAX, Math.max(AXIS_MIN, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function weightedAxisMean(scores: PolicyScore[], axis: 'econFreedom' | 'personalFreedom'): number | null {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const score of scores) {
+    const value = score[axis];
+    if (value === null || Number.isNaN(value)) {
+      continue;
+    }
+
+    const weight = policyWeight(score);
+    weightedSum += value * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? round(clampAxis(weightedSum / totalWeight)) : null;
+}
+
+/**
+ * Derives a compass position from policy-level scores as the weighted mean of
+ * each axis, where a policy's weight is its `weight` column scaled by impact.
+ * Returns null when no policy carries a score on either axis.
+ */
+export function derivePartyPosition(scores: PolicyScore[]): CompassPosition | null {
+  const econFreedom = weightedAxisMean(scores, 'econFreedom');
+  const personalFreedom = weightedAxisMean(scores, 'personalFreedom');
+
+  if (econFreedom === null && personalFreedom === null) {
+    return null;
+  }
+
+  return {
+    econFreedom: econFreedom ?? 0,
+    personalFreedom: personalFreedom ?? 0
+  };
+}
+
+/**
+ * The position stored on the party row. Null unless both axes are stored, so
+ * a half-filled row falls back to the derived position instead of placing
+ * the party at 0 on the missing axis.
+ */
+export function storedPartyPosition(econFreedom: number | null, personalFreedom: number | null): CompassPosition | null {
+  if (econFreedom === null || personalFreedom === null) {
+    return null;
+  }
+
+  return { econFreedom, personalFreedom };
+}
+
+/**
+ * Picks the position to serve for the requested source, falling back to the
+ * other source when the requested one is unavailable.
+ */
+export function resolvePartyPosition(
+  stored: CompassPosition | null,
+  derived: CompassPosition | null,
+  preferred: PositionSource
+): { position: CompassPosition; source: PositionSource | null } {
+  const bySource: Record<PositionSource, CompassPosition | null> = { stored, derived };
+  const fallback: PositionSource = preferred === 'derived' ? 'stored' : 'derived';
+
+  for (const source of [preferred, fallback]) {
+    const position = bySource[source];
+    if (position) {
+      return { position, source };
+    }
+  }
+
+  return { position: { econFreedom: 0, personalFreedom: 0 }, source: null };
+}
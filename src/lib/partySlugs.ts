@@ -0,0 +1,21 @@
+// Globally unique party identifiers for the UI and URLs: the country code and
+// the party id in lower case, e.g. "cz-ods". Party ids are already unique in
+// the database, so the slug is stable. Slugs from URLs go through
+// `normalizePartySlug` before they are compared, so "/party/CZ-ODS" and
+// "/party/cz-ods" name the same party.
+
+const SLUG_PATTERN = /^([a-z]{2})-(.+)$/;
+
+export function partySlug(countryCode: string, partyId: string): string {
+  return normalizePartySlug(`${countryCode}-${partyId}`);
+}
+
+export function normalizePartySlug(slug: string): string {
+  return slug.toLowerCase();
+}
+
+// `partyId` comes back lower-cased; match parties by slug, not by id
+export function parsePartySlug(slug: string): { countryCode: string; partyId: string } | null {
+  const match = SLUG_PATTERN.exec(normalizePartySlug(slug));
+  return match ? { countryCode: match[1].toUpperCase(), partyId: match[2] } : null;
+}
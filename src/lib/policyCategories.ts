@@ -0,0 +1,41 @@
+import type { CompassPosition, PolicyAnalysis } from '../types/political';
+
+// Coarse grouping of analysed policies by the axis their primary category
+// ("Moderately Left", "Far Authoritarian", ...) belongs to. Used by the
+// platform analysis and the party comparison.
+
+export type PolicyCategory = 'Economic' | 'Authority' | 'Other';
+
+export const POLICY_CATEGORIES: PolicyCategory[] = ['Economic', 'Authority', 'Other'];
+
+// The compass axis a category's policies are scored on
+export const POLICY_CATEGORY_AXES: Record<PolicyCategory, keyof CompassPosition | null> = {
+  Economic: 'econFreedom',
+  Authority: 'personalFreedom',
+  Other: null
+};
+
+export interface CategorizedPolicy {
+  category: PolicyCategory;
+  policies: PolicyAnalysis[];
+}
+
+export function policyCategory(policy: PolicyAnalysis): PolicyCategory {
+  const primaryCategory = policy.categories[0]?.toLowerCase() || '';
+
+  // Categorize based on keywords
+  if (primaryCategory.includes('left') || primaryCategory.includes('right')) {
+    return 'Economic';
+  }
+  if (primaryCategory.includes('authoritarian') || primaryCategory.includes('libertarian')) {
+    return 'Authority';
+  }
+  return 'Other';
+}
+
+/** Policies per category, in `POLICY_CATEGORIES` order, leaving out empty categories. */
+export function groupPolicies(policies: PolicyAnalysis[]): CategorizedPolicy[] {
+  return POLICY_CATEGORIES
+    .map((category) => ({ category, policies: policies.filter((policy) => policyCategory(policy) === category) }))
+    .filter((group) => group.policies.length > 0);
+}
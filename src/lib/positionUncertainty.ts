@@ -0,0 +1,155 @@
+import type { AxisDispersion, ConfidenceEllipse, PositionUncertainty } from '../types/political';
+import { PolicyScore, derivePartyPosition, policyWeight } from './partyPositions.js';
+
+// Shared between the API and the browser fallback like partyPositions.ts.
+
+const BOOTSTRAP_SAMPLES = 500;
+const CONFIDENCE_LEVEL = 0.95;
+// Chi-squared quantile for 2 degrees of freedom at the 95% level.
+const ELLIPSE_CHI_SQUARED = 5.991;
+
+type Axis = 'econFreedom' | 'personalFreedom';
+
+function hashSeed(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small deterministic PRNG so the API and the fallback agree.
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  const index = (sorted.length - 1) * fraction;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function weightedStandardDeviation(scores: PolicyScore[], axis: Axis): { mean: number; standardDeviation: number } | null {
+  let totalWeight = 0;
+  let weightedSum = 0;
+
+  for (const score of scores) {
+    const value = score[axis];
+    if (value === null) continue;
+    const weight = policyWeight(score);
+    totalWeight += weight;
+    weightedSum += value * weight;
+  }
+
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  const mean = weightedSum / totalWeight;
+  let weightedSquares = 0;
+  for (const score of scores) {
+    const value = score[axis];
+    if (value === null) continue;
+    weightedSquares += policyWeight(score) * (value - mean) ** 2;
+  }
+
+  return { mean, standardDeviation: Math.sqrt(weightedSquares / totalWeight) };
+}
+
+function covarianceEllipse(points: Array<[number, number]>): ConfidenceEllipse | null {
+  if (points.length < 2) {
+    return null;
+  }
+
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / points.length;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / points.length;
+  let varX = 0;
+  let varY = 0;
+  let covXY = 0;
+  for (const [x, y] of points) {
+    varX += (x - meanX) ** 2;
+    varY += (y - meanY) ** 2;
+    covXY += (x - meanX) * (y - meanY);
+  }
+  varX /= points.length - 1;
+  varY /= points.length - 1;
+  covXY /= points.length - 1;
+
+  // Eigen decomposition of the symmetric 2x2 covariance matrix.
+  const trace = varX + varY;
+  const discriminant = Math.sqrt(((varX - varY) / 2) ** 2 + covXY ** 2);
+  const major = trace / 2 + discriminant;
+  const minor = Math.max(0, trace / 2 - discriminant);
+  const angle = (Math.atan2(major - varX, covXY) * 180) / Math.PI;
+
+  return {
+    radiusX: round(Math.sqrt(major * ELLIPSE_CHI_SQUARED)),
+    radiusY: round(Math.sqrt(minor * ELLIPSE_CHI_SQUARED)),
+    angle: round(covXY === 0 ? (varX >= varY ? 0 : 90) : angle)
+  };
+}
+
+/**
+ * Estimates how stable a derived party position is: the weighted spread of its
+ * policy scores per axis, percentile bootstrap confidence intervals for the
+ * weighted mean, and the matching confidence ellipse. `seed` keeps the
+ * resampling deterministic per party.
+ */
+export function estimatePositionUncertainty(scores: PolicyScore[], seed: string): PositionUncertainty | null {
+  const scored = scores.filter((score) => score.econFreedom !== null || score.personalFreedom !== null);
+  if (scored.length === 0) {
+    return null;
+  }
+
+  const random = createRandom(hashSeed(seed));
+  const samples: Array<[number, number]> = [];
+  const econSamples: number[] = [];
+  const personalSamples: number[] = [];
+
+  if (scored.length > 1) {
+    for (let sample = 0; sample < BOOTSTRAP_SAMPLES; sample++) {
+      const resample = scored.map(() => scored[Math.floor(random() * scored.length)]);
+      const position = derivePartyPosition(resample);
+      if (!position) continue;
+      samples.push([position.econFreedom, position.personalFreedom]);
+      econSamples.push(position.econFreedom);
+      personalSamples.push(position.personalFreedom);
+    }
+  }
+
+  const alpha = (1 - CONFIDENCE_LEVEL) / 2;
+  const axisDispersion = (axis: Axis, bootstrap: number[]): AxisDispersion | null => {
+    const spread = weightedStandardDeviation(scored, axis);
+    if (!spread) {
+      return null;
+    }
+
+    const sorted = [...bootstrap].sort((a, b) => a - b);
+    return {
+      standardDeviation: round(spread.standardDeviation),
+      confidenceInterval: sorted.length > 0
+        ? [round(percentile(sorted, alpha)), round(percentile(sorted, 1 - alpha))]
+        : null
+    };
+  };
+
+  return {
+    sampleSize: scored.length,
+    confidenceLevel: CONFIDENCE_LEVEL,
+    econFreedom: axisDispersion('econFreedom', econSamples),
+    personalFreedom: axisDispersion('personalFreedom', personalSamples),
+    ellipse: covarianceEllipse(samples)
+  };
+}
@@ -0,0 +1,198 @@
+import type { PolicyAnalysis, PolicyImpact, QuizQuestion } from '../types/political';
+import { isOutOfRangeScore } from './dataQuality.js';
+
+// Builds voting-advice statements from analysed policies. Generated questions
+// go into a question bank file that reviewers edit and approve before it is
+// imported into `quiz_questions`.
+
+export type QuizBankStatus = 'pending' | 'approved' | 'rejected';
+
+export const QUIZ_BANK_STATUSES: QuizBankStatus[] = ['pending', 'approved', 'rejected'];
+
+// A policy a statement was made from; merged near-duplicates keep every source
+export interface QuizBankSource {
+  partyId: string;
+  responseId: number;
+  policyText: string;
+  econFreedom: number | null;
+  personalFreedom: number | null;
+}
+
+export interface QuizBankEntry {
+  id: string;
+  country: string;
+  statement: string;
+  econDirection: number;
+  personalDirection: number;
+  status: QuizBankStatus;
+  needsRewrite: boolean; // the policy text couldn't be turned into a statement automatically
+  sources: QuizBankSource[];
+}
+
+export interface QuizGeneratorOptions {
+  minImpact: PolicyImpact;
+  minStrength: number; // strongest axis score a policy needs, 0 to 10
+  similarity: number; // token overlap (Jaccard) from which statements count as duplicates, 0 to 1
+  limit: number; // questions per country
+}
+
+export interface QuizBank {
+  generatedAt: string;
+  countries: string[];
+  options: QuizGeneratorOptions;
+  questions: QuizBankEntry[];
+}
+
+// A published policy together with the party and country it belongs to
+export interface QuizCandidate {
+  partyId: string;
+  country: string;
+  policy: PolicyAnalysis;
+}
+
+export const DEFAULT_QUIZ_GENERATOR_OPTIONS: QuizGeneratorOptions = {
+  minImpact: 'high',
+  minStrength: 5,
+  similarity: 0.6,
+  limit: 20
+};
+
+const IMPACT_RANK: Record<PolicyImpact, number> = { low: 1, medium: 2, high: 3 };
+
+// Manifesto pledges ("We will ...", "Our party must ...") become "The government should ..."
+const PLEDGE_PATTERN = /^(?:we|our party|the party)\s+(?:will|shall|must|want to|intend to|plan to|aim to|promise to|are going to)\s+(.+)$/i;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'will', 'should', 'government',
+  'our', 'all', 'are', 'its', 'their', 'into', 'more', 'than', 'which', 'also'
+]);
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function scoreDirection(score: number | null): number {
+  return score === null ? 0 : Math.max(-1, Math.min(1, round(score / 10)));
+}
+
+function policyStrength(policy: PolicyAnalysis): number {
+  return Math.max(Math.abs(policy.econFreedom ?? 0), Math.abs(policy.personalFreedom ?? 0));
+}
+
+function asSentence(text: string): string {
+  const trimmed = text.trim().replace(/\s+/g, ' ').replace(/[.;,:!]+$/, '');
+  return `${trimmed.charAt(0).toUpperCase()}${trimmed.slice(1)}.`;
+}
+
+/**
+ * An agree/disagree statement for a policy. Pledges are rephrased as what the
+ * government should do; anything else is kept as written and flagged for a
+ * reviewer to rewrite.
+ */
+export function policyStatement(policyText: string): { statement: string; needsRewrite: boolean } {
+  const pledge = PLEDGE_PATTERN.exec(policyText.trim());
+  if (pledge) {
+    return { statement: asSentence(`The government should ${pledge[1]}`), needsRewrite: false };
+  }
+  return { statement: asSentence(policyText), needsRewrite: true };
+}
+
+function statementTokens(statement: string): Set<string> {
+  return new Set(
+    (statement.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((token) => token.length > 2 && !STOP_WORDS.has(token))
+  );
+}
+
+/** Share of distinct significant words two statements have in common, 0 to 1. */
+export function statementSimilarity(a: string, b: string): number {
+  const left = statementTokens(a);
+  const right = statementTokens(b);
+  const union = new Set([...left, ...right]).size;
+  if (union === 0) return 1;
+  const shared = [...left].filter((token) => right.has(token)).length;
+  return shared / union;
+}
+
+function isSelected(policy: PolicyAnalysis, options: QuizGeneratorOptions): boolean {
+  return IMPACT_RANK[policy.impact] >= IMPACT_RANK[options.minImpact]
+    && policyStrength(policy) >= options.minStrength
+    && !isOutOfRangeScore(policy.econFreedom, policy.personalFreedom);
+}
+
+/**
+ * Statements from the high-impact, strongly scored candidates, strongest
+ * first. A statement that nearly matches a stronger one from the same country
+ * is merged into it as another source. Policies already imported, and
+ * statements that nearly match an existing question for the country (or for
+ * every country), are dropped.
+ */
+export function generateQuizQuestions(
+  candidates: QuizCandidate[],
+  existing: QuizQuestion[],
+  options: QuizGeneratorOptions = DEFAULT_QUIZ_GENERATOR_OPTIONS
+): QuizBankEntry[] {
+  const selected = candidates
+    .filter((candidate) => isSelected(candidate.policy, options))
+    .sort((a, b) => policyStrength(b.policy) - policyStrength(a.policy)
+      || IMPACT_RANK[b.policy.impact] - IMPACT_RANK[a.policy.impact]
+      || a.policy.id - b.policy.id);
+
+  const entries: QuizBankEntry[] = [];
+  for (const { partyId, country, policy } of selected) {
+    const id = `${country.toLowerCase()}-policy-${policy.id}`;
+    const { statement, needsRewrite } = policyStatement(policy.policyText);
+    const isAsked = existing.some((question) => question.id === id
+      || ((question.country === null || question.country === country)
+        && statementSimilarity(question.statement, statement) >= options.similarity));
+    if (isAsked) continue;
+
+    const source: QuizBankSource = {
+      partyId,
+      responseId: policy.id,
+      policyText: policy.policyText,
+      econFreedom: policy.econFreedom,
+      personalFreedom: policy.personalFreedom
+    };
+    const duplicate = entries.find((entry) => entry.country === country
+      && statementSimilarity(entry.statement, statement) >= options.similarity);
+    if (duplicate) {
+      duplicate.sources.push(source);
+      continue;
+    }
+
+    if (entries.filter((entry) => entry.country === country).length >= options.limit) continue;
+    entries.push({
+      id,
+      country,
+      statement,
+      econDirection: scoreDirection(policy.econFreedom),
+      personalDirection: scoreDirection(policy.personalFreedom),
+      status: 'pending',
+      needsRewrite,
+      sources: [source]
+    });
+  }
+
+  return entries;
+}
+
+/** Problems that keep a bank entry from being imported; empty when it is fine. */
+export function validateQuizBankEntry(entry: QuizBankEntry): string[] {
+  const errors: string[] = [];
+  if (typeof entry.id !== 'string' || entry.id.trim() === '') errors.push('id is missing');
+  if (typeof entry.country !== 'string' || !/^[A-Z]{2}$/.test(entry.country)) errors.push('country must be an alpha-2 code');
+  if (typeof entry.statement !== 'string' || entry.statement.trim() === '') errors.push('statement is missing');
+  if (!QUIZ_BANK_STATUSES.includes(entry.status)) errors.push(`status must be one of ${QUIZ_BANK_STATUSES.join(', ')}`);
+
+  const directions = [entry.econDirection, entry.personalDirection];
+  if (directions.some((direction) => typeof direction !== 'number' || !(direction >= -1 && direction <= 1))) {
+    errors.push('econDirection and personalDirection must be numbers from -1 to 1');
+  } else if (directions.every((direction) => direction === 0)) {
+    errors.push('statement moves neither axis');
+  }
+
+  if (entry.status === 'approved' && entry.needsRewrite) {
+    errors.push('approved but still marked needsRewrite; rewrite the statement and set needsRewrite to false');
+  }
+  return errors;
+}
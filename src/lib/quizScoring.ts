@@ -0,0 +1,65 @@
+import type { CompassPosition, PartyMatch, PoliticalParty, QuizAnswer, QuizQuestion } from '../types/political';
+import { positionDistance } from './partyComparison.js';
+
+// Voting-advice scoring: turns quiz answers into a compass position on the
+// same -10..+10 axes as the parties and ranks parties by how close they are.
+
+export const QUIZ_ANSWERS: Array<{ value: QuizAnswer; label: string }> = [
+  { value: -2, label: 'Strongly disagree' },
+  { value: -1, label: 'Disagree' },
+  { value: 0, label: 'Neutral' },
+  { value: 1, label: 'Agree' },
+  { value: 2, label: 'Strongly agree' }
+];
+
+const AXIS_LIMIT = 10;
+const STRONGEST_ANSWER = 2;
+// Opposite corners of the compass
+const MAX_DISTANCE = Math.hypot(2 * AXIS_LIMIT, 2 * AXIS_LIMIT);
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function axisScore(questions: QuizQuestion[], answers: Record<string, QuizAnswer>, direction: (question: QuizQuestion) => number): number {
+  let total = 0;
+  let maximum = 0;
+  for (const question of questions) {
+    const answer = answers[question.id];
+    if (answer === undefined || direction(question) === 0) continue;
+    total += answer * direction(question);
+    maximum += STRONGEST_ANSWER * Math.abs(direction(question));
+  }
+  return maximum === 0 ? 0 : round((total / maximum) * AXIS_LIMIT);
+}
+
+/**
+ * The user's position from their answers: on each axis, the answers weighted
+ * by the questions' directions, as a share of the strongest possible answers
+ * and scaled to -10..+10. Skipped questions don't count, and an axis no
+ * answered question touches stays at 0. Null until something is answered.
+ */
+export function scoreQuiz(questions: QuizQuestion[], answers: Record<string, QuizAnswer>): CompassPosition | null {
+  if (!questions.some((question) => answers[question.id] !== undefined)) {
+    return null;
+  }
+
+  return {
+    econFreedom: axisScore(questions, answers, (question) => question.econDirection),
+    personalFreedom: axisScore(questions, answers, (question) => question.personalDirection)
+  };
+}
+
+/** Parties closest to `position` first, with a match of 100% at the same spot and 0% at opposite corners. */
+export function rankPartyMatches(position: CompassPosition, parties: PoliticalParty[]): PartyMatch[] {
+  return parties
+    .map((party) => {
+      const distance = positionDistance(position, party);
+      return {
+        party,
+        distance: round(distance),
+        matchPercent: Math.round(100 * (1 - distance / MAX_DISTANCE))
+      };
+    })
+    .sort((a, b) => a.distance - b.distance);
+}
@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { AppHeader } from '@/components/AppHeader';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAdminToken } from '@/hooks/use-admin-token';
+import { fetchAnalysisErrors, retryAnalysisErrors } from '@/data/databaseService';
+
+const ALL_PARTIES = 'all';
+
+function formatTimestamp(timestamp: string | null): string {
+  if (!timestamp) return '–';
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+}
+
+const AnalysisErrors = () => {
+  const queryClient = useQueryClient();
+  const [token, setToken] = useAdminToken();
+  const [partyFilter, setPartyFilter] = useState<string>(ALL_PARTIES);
+  const [provider, setProvider] = useState<string>('');
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  const partyId = partyFilter === ALL_PARTIES ? null : partyFilter;
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['analysisErrors', token],
+    queryFn: () => fetchAnalysisErrors(null, token),
+    enabled: token !== '',
+    retry: false,
+  });
+
+  const errors = useMemo(() => data?.errors ?? [], [data]);
+  const visibleErrors = useMemo(
+    () => (partyId ? errors.filter((analysisError) => analysisError.partyId === partyId) : errors),
+    [errors, partyId]
+  );
+  const partyIds = useMemo(() => [...new Set(errors.map((analysisError) => analysisError.partyId))].sort(), [errors]);
+  const retryableIds = visibleErrors.filter((analysisError) => analysisError.retryable).map((analysisError) => analysisError.id);
+
+  useEffect(() => {
+    if (data?.defaultProvider && provider === '') {
+      setProvider(data.defaultProvider);
+    }
+  }, [data, provider]);
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [partyFilter, data]);
+
+  const retryMutation = useMutation({
+    mutationFn: (responseIds: number[]) => retryAnalysisErrors({ responseIds, partyId, provider }, token),
+    onSuccess: ({ results }) => {
+      const succeeded = results.filter((result) => result.status === 'succeeded').length;
+      const failed = results.filter((result) => result.status === 'failed').length;
+      const skipped = results.filter((result) => result.status === 'skipped').length;
+      const summary = `${succeeded} succeeded, ${failed} failed again${skipped > 0 ? `, ${skipped} skipped` : ''}`;
+      if (failed > 0 || skipped > 0) {
+        toast.warning(`Retried ${results.length} chunk(s): ${summary}`);
+      } else {
+        toast.success(`Retried ${results.length} chunk(s): ${summary}`);
+      }
+      queryClient.invalidateQueries({ queryKey: ['analysisErrors'] });
+      queryClient.invalidateQueries({ queryKey: ['partyPolicies'] });
+      queryClient.invalidateQueries({ queryKey: ['parties'] });
+    },
+    onError: (mutationError: Error) => {
+      toast.error(`Retry failed: ${mutationError.message}`);
+    },
+  });
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = retryableIds.length > 0 && retryableIds.every((id) => selectedIds.has(id));
+
+  return (
+    <div className="min-h-screen bg-gradient-bg">
+      <AppHeader />
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">Failed Analysis Chunks</h2>
+            <p className="text-muted-foreground">
+              Manifesto chunks the scoring provider failed on. Retried chunks that succeed are replaced by their policies.
+            </p>
+          </div>
+          <Button variant="ghost" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to compass
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="p-6">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="admin-token">Admin token</Label>
+              <Input
+                id="admin-token"
+                type="password"
+                value={token}
+                onChange={(event) => setToken(event.target.value)}
+                placeholder="REVIEW_API_TOKEN"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="error-party">Party</Label>
+              <Select value={partyFilter} onValueChange={setPartyFilter} disabled={partyIds.length === 0}>
+                <SelectTrigger id="error-party">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_PARTIES}>All parties</SelectItem>
+                  {partyIds.map((id) => (
+                    <SelectItem key={id} value={id}>{id}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="retry-provider">Retry with</Label>
+              <Select value={provider} onValueChange={setProvider} disabled={!data}>
+                <SelectTrigger id="retry-provider">
+                  <SelectValue placeholder="Scoring provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(data?.providers ?? []).map((name) => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {data && data.providers.length === 0 && (
+            <p className="text-sm text-muted-foreground mt-4">
+              No scoring provider is configured, so failed chunks can't be retried yet.
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-2 justify-end mt-4">
+            <Button
+              variant="outline"
+              disabled={selectedIds.size === 0 || provider === '' || retryMutation.isPending}
+              onClick={() => retryMutation.mutate([...selectedIds])}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Retry selected ({selectedIds.size})
+            </Button>
+            <Button
+              disabled={retryableIds.length === 0 || provider === '' || retryMutation.isPending}
+              onClick={() => retryMutation.mutate(retryableIds)}
+            >
+              {retryMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              Retry all ({retryableIds.length})
+            </Button>
+          </div>
+        </Card>
+
+        <Card className="p-0 overflow-hidden">
+          {token === '' ? (
+            <p className="p-6 text-center text-muted-foreground">Enter the admin token to load failed chunks.</p>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : error ? (
+            <p className="p-6 text-center text-destructive">{(error as Error).message}</p>
+          ) : visibleErrors.length === 0 ? (
+            <p className="p-6 text-center text-muted-foreground">No failed chunks.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => setSelectedIds(checked === true ? new Set(retryableIds) : new Set())}
+                      aria-label="Select all retryable chunks"
+                    />
+                  </TableHead>
+                  <TableHead>Party</TableHead>
+                  <TableHead className="text-right">Chunk</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead>Run</TableHead>
+                  <TableHead>When</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleErrors.map((analysisError) => (
+                  <TableRow key={analysisError.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.has(analysisError.id)}
+                        disabled={!analysisError.retryable}
+                        onCheckedChange={(checked) => toggleSelected(analysisError.id, checked === true)}
+                        aria-label={`Select chunk ${analysisError.chunkIndex} of ${analysisError.partyId}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{analysisError.partyId}</TableCell>
+                    <TableCell className="text-right tabular-nums">{analysisError.chunkIndex}</TableCell>
+                    <TableCell className="max-w-lg">
+                      <p className="text-sm font-mono break-words">{analysisError.error}</p>
+                      {!analysisError.retryable && (
+                        <Badge variant="outline" className="mt-1 text-xs">chunk text not stored</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {analysisError.run ? `${analysisError.run.provider} · ${analysisError.run.model}` : '–'}
+                    </TableCell>
+                    <TableCell className="text-xs">{formatTimestamp(analysisError.timestamp)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default AnalysisErrors;
@@ -0,0 +1,241 @@
+import React, { useMemo } from 'react';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { AppHeader } from '@/components/AppHeader';
+import { PoliticalCompass } from '@/components/PoliticalCompass';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useDocumentTitle } from '@/hooks/use-document-title';
+import { useIdeologies } from '@/hooks/use-ideologies';
+import { fetchParties, fetchPartyPolicies } from '@/data/databaseService';
+import { MAX_COMPARED_PARTIES, MIN_COMPARED_PARTIES, alignPoliciesByCategory, comparePartyPairs } from '@/lib/partyComparison';
+import { normalizePartySlug, parsePartySlug } from '@/lib/partySlugs';
+import { CompassPosition, PoliticalParty } from '@/types/political';
+
+const AXIS_LABELS: Record<keyof CompassPosition, string> = {
+  econFreedom: 'Economic',
+  personalFreedom: 'Personal',
+};
+
+function formatScore(value: number | null): string {
+  if (value === null) return '–';
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+const Compare = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { getIdeology } = useIdeologies();
+
+  // Compared parties come from repeated `party` params, e.g. ?party=cz-ods&party=cz-pir
+  const slugs = useMemo(
+    () => [...new Set(searchParams.getAll('party').map(normalizePartySlug))]
+      .filter(slug => parsePartySlug(slug) !== null)
+      .slice(0, MAX_COMPARED_PARTIES),
+    [searchParams]
+  );
+  const countryCodes = useMemo(
+    () => [...new Set(slugs.map(slug => parsePartySlug(slug)!.countryCode))],
+    [slugs]
+  );
+
+  const { data: loadedParties = [], isLoading } = useQuery({
+    queryKey: ['parties', countryCodes.join(',')],
+    queryFn: () => fetchParties(countryCodes),
+    enabled: countryCodes.length > 0,
+  });
+  const parties = useMemo(
+    () => slugs
+      .map(slug => loadedParties.find(party => party.slug === slug))
+      .filter((party): party is PoliticalParty => party !== undefined),
+    [slugs, loadedParties]
+  );
+
+  const policyQueries = useQueries({
+    queries: parties.map(party => ({
+      queryKey: ['partyPolicies', party.slug],
+      queryFn: () => fetchPartyPolicies(party.id),
+    })),
+  });
+  const isLoadingPolicies = policyQueries.some(query => query.isLoading);
+  const policyLists = policyQueries.map(query => query.data ?? []);
+
+  const pairs = useMemo(() => comparePartyPairs(parties), [parties]);
+  const alignedCategories = alignPoliciesByCategory(policyLists);
+
+  useDocumentTitle(parties.length > 0 ? parties.map(party => party.name).join(' vs ') : null);
+
+  const handlePartyClick = (party: PoliticalParty) => {
+    navigate(`/party/${party.slug}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-bg">
+      <AppHeader />
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">Party Comparison</h2>
+            <p className="text-muted-foreground">
+              How far apart the parties sit on the compass, and the policies behind the gap.
+            </p>
+          </div>
+          <Button variant="ghost" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to compass
+            </Link>
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : parties.length < MIN_COMPARED_PARTIES ? (
+          <Card className="p-6">
+            <p className="text-center text-muted-foreground">
+              Pick {MIN_COMPARED_PARTIES} to {MAX_COMPARED_PARTIES} parties on the compass to compare them.
+            </p>
+          </Card>
+        ) : (
+          <>
+            <div className="grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)] items-start">
+              <PoliticalCompass parties={parties} onPartyClick={handlePartyClick} />
+
+              <div className="space-y-6">
+                <Card className="p-0 overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Party</TableHead>
+                        <TableHead className="text-right">Economic</TableHead>
+                        <TableHead className="text-right">Personal</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {parties.map(party => (
+                        <TableRow key={party.slug}>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <span
+                                className="h-3 w-3 rounded-full shrink-0"
+                                style={{ backgroundColor: getIdeology(party.ideology).color }}
+                              />
+                              <Link to={`/party/${party.slug}`} className="font-medium hover:underline">
+                                {party.name}
+                              </Link>
+                              {party.country && <span title={party.country.name}>{party.country.flag}</span>}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{formatScore(party.econFreedom)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatScore(party.personalFreedom)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Card>
+
+                <Card className="p-0 overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Pair</TableHead>
+                        <TableHead className="text-right">Distance</TableHead>
+                        <TableHead className="text-right">Δ Economic</TableHead>
+                        <TableHead className="text-right">Δ Personal</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {pairs.map(pair => (
+                        <TableRow key={`${pair.first.slug}:${pair.second.slug}`}>
+                          <TableCell className="text-sm">
+                            {pair.first.name} → {pair.second.name}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums font-medium">{pair.distance.toFixed(1)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatScore(pair.econDifference)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatScore(pair.personalDifference)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Card>
+              </div>
+            </div>
+
+            {/* Policies aligned by category */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold">Policies by Category</h3>
+              {isLoadingPolicies ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : alignedCategories.length === 0 ? (
+                <Card className="p-6">
+                  <p className="text-center text-muted-foreground">
+                    No policy analysis data available for these parties yet.
+                  </p>
+                </Card>
+              ) : (
+                alignedCategories.map(row => (
+                  <Card key={row.category} className="p-6">
+                    <h4 className="text-lg font-semibold mb-4 text-primary">
+                      {row.category}
+                      {row.axis && (
+                        <span className="text-sm font-normal text-muted-foreground ml-2">
+                          {AXIS_LABELS[row.axis]} axis, highest score first
+                        </span>
+                      )}
+                    </h4>
+
+                    <div
+                      className="grid gap-4"
+                      style={{ gridTemplateColumns: `repeat(${parties.length}, minmax(0, 1fr))` }}
+                    >
+                      {row.columns.map((column, index) => (
+                        <div key={parties[index].slug} className="space-y-3 min-w-0">
+                          <div className="border-b pb-2">
+                            <p className="font-medium truncate">{parties[index].name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {column.policies.length} {column.policies.length === 1 ? 'policy' : 'policies'}
+                              {row.axis && ` · mean ${formatScore(column.meanScore)}`}
+                            </p>
+                          </div>
+
+                          {column.policies.map(policy => (
+                            <div key={policy.id} className="border rounded-lg p-3">
+                              <div className="flex items-start justify-between gap-2">
+                                <p className="text-sm font-medium">{policy.shortName}</p>
+                                {row.axis && (
+                                  <span className="text-sm tabular-nums font-semibold shrink-0">
+                                    {formatScore(policy[row.axis])}
+                                  </span>
+                                )}
+                              </div>
+                              <div className="flex gap-1 flex-wrap mt-2">
+                                <Badge variant="outline" className="text-xs">{policy.impact} impact</Badge>
+                                {policy.categories.map(category => (
+                                  <Badge key={category} variant="secondary" className="text-xs">{category}</Badge>
+                                ))}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </Card>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Compare;
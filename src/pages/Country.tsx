@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { AppHeader } from '@/components/AppHeader';
+import { CompassSkeleton } from '@/components/LoadingState';
+import { PoliticalCompass } from '@/components/PoliticalCompass';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useDocumentTitle } from '@/hooks/use-document-title';
+import { useIdeologies } from '@/hooks/use-ideologies';
+import { fetchCountries, fetchParties } from '@/data/databaseService';
+import { PARTY_FAMILY_LABELS } from '@/lib/partyFamilies';
+import { PoliticalParty } from '@/types/political';
+
+type SortKey = 'name' | 'econFreedom' | 'personalFreedom' | 'ideology' | 'partyFamily' | 'policyCount';
+type SortDirection = 'asc' | 'desc';
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'name', label: 'Party' },
+  { key: 'econFreedom', label: 'Economic', numeric: true },
+  { key: 'personalFreedom', label: 'Personal', numeric: true },
+  { key: 'ideology', label: 'Ideology' },
+  { key: 'partyFamily', label: 'EU group' },
+  { key: 'policyCount', label: 'Policies', numeric: true },
+];
+
+function formatScore(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+const Country = () => {
+  const { code = '' } = useParams();
+  const countryCode = code.toUpperCase();
+  const navigate = useNavigate();
+  const { getIdeology } = useIdeologies();
+  const [sortKey, setSortKey] = useState<SortKey>('name');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+
+  const { data: countries = [], isLoading: isLoadingCountries } = useQuery({
+    queryKey: ['countries'],
+    queryFn: fetchCountries,
+  });
+  const country = countries.find((entry) => entry.code === countryCode) ?? null;
+
+  const { data: parties = [], isLoading: isLoadingParties } = useQuery({
+    queryKey: ['parties', countryCode],
+    queryFn: () => fetchParties(countryCode),
+    enabled: country !== null,
+  });
+
+  useDocumentTitle(country ? `Political parties in ${country.name}` : null);
+
+  // Text columns sort by their displayed label, numbers numerically
+  const sortedParties = useMemo(() => {
+    const sortValue = (party: PoliticalParty): string | number => {
+      switch (sortKey) {
+        case 'ideology': return getIdeology(party.ideology).label;
+        case 'partyFamily': return party.partyFamily ? PARTY_FAMILY_LABELS[party.partyFamily] : '';
+        default: return party[sortKey];
+      }
+    };
+    const direction = sortDirection === 'asc' ? 1 : -1;
+    return [...parties].sort((a, b) => {
+      const left = sortValue(a);
+      const right = sortValue(b);
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right));
+      return order * direction;
+    });
+  }, [parties, sortKey, sortDirection, getIdeology]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection('asc');
+    }
+  };
+
+  const handlePartyClick = (party: PoliticalParty) => {
+    navigate(`/party/${party.slug}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-bg">
+      <AppHeader />
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">
+              {country ? `${country.flag} ${country.name}` : countryCode}
+            </h2>
+            {country && (
+              <p className="text-muted-foreground">
+                {country.region} · {country.electoralSystem} electoral system{country.euMember ? ' · EU member' : ''}
+              </p>
+            )}
+          </div>
+          <Button variant="ghost" asChild>
+            <Link to={`/?country=${countryCode}`}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to compass
+            </Link>
+          </Button>
+        </div>
+
+        {isLoadingCountries || isLoadingParties ? (
+          <CompassSkeleton />
+        ) : !country ? (
+          <Card className="p-6">
+            <p className="text-center text-muted-foreground">No country with the code "{code}".</p>
+          </Card>
+        ) : parties.length === 0 ? (
+          <Card className="p-6">
+            <p className="text-center text-muted-foreground">No parties have been mapped for {country.name} yet.</p>
+          </Card>
+        ) : (
+          <>
+            <PoliticalCompass parties={parties} onPartyClick={handlePartyClick} />
+
+            <Card className="p-0 overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {COLUMNS.map((column) => {
+                      const SortIcon = column.key !== sortKey ? ArrowUpDown : sortDirection === 'asc' ? ArrowUp : ArrowDown;
+                      return (
+                        <TableHead
+                          key={column.key}
+                          className={column.numeric ? 'text-right' : undefined}
+                          aria-sort={column.key !== sortKey ? 'none' : sortDirection === 'asc' ? 'ascending' : 'descending'}
+                        >
+                          <Button variant="ghost" size="sm" className="-mx-3" onClick={() => handleSort(column.key)}>
+                            {column.label}
+                            <SortIcon className="h-3 w-3 ml-1" />
+                          </Button>
+                        </TableHead>
+                      );
+                    })}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedParties.map((party) => {
+                    const ideology = getIdeology(party.ideology);
+                    return (
+                      <TableRow key={party.slug}>
+                        <TableCell className="font-medium">
+                          <Link to={`/party/${party.slug}`} className="hover:underline">
+                            {party.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{formatScore(party.econFreedom)}</TableCell>
+                        <TableCell className="text-right tabular-nums">{formatScore(party.personalFreedom)}</TableCell>
+                        <TableCell>
+                          <Badge style={{ backgroundColor: ideology.color, color: 'white' }}>
+                            {ideology.label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {party.partyFamily ? PARTY_FAMILY_LABELS[party.partyFamily] : '–'}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{party.policyCount}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Country;
@@ -1,86 +1,170 @@
 import React, { useState, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'sonner';
+import { Link } from 'react-router-dom';
+import { ClipboardList } from 'lucide-react';
 import { AppHeader } from '@/components/AppHeader';
 import { CountrySelector } from '@/components/CountrySelector';
 import { PoliticalCompass } from '@/components/PoliticalCompass';
 import { PartyDetailDrawer } from '@/components/PartyDetailDrawer';
+import { ComparisonBar } from '@/components/ComparisonBar';
 import { IdeologyLegend } from '@/components/IdeologyLegend';
 import { LoadingState, CompassSkeleton } from '@/components/LoadingState';
-import { fetchCountries, fetchParties } from '@/data/databaseService';
-import { Country, PoliticalParty, Ideology } from '@/types/political';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { fetchCountries, fetchParties, fetchPartyHistories } from '@/data/databaseService';
+import { NO_PARTY_FAMILY, PartyFamilyFilter } from '@/lib/partyFamilies';
+import { MAX_COMPARED_PARTIES } from '@/lib/partyComparison';
+import { useCompassUrlState } from '@/hooks/use-compass-url-state';
+import { useIdeologies } from '@/hooks/use-ideologies';
+import { ClassificationScheme, Country, PoliticalParty, Ideology } from '@/types/political';
 
 // Multi-country selector implementation
 
 const Index = () => {
-  const [selectedCountries, setSelectedCountries] = useState<Country[]>([]);
-  const [selectedParty, setSelectedParty] = useState<PoliticalParty | null>(null);
-  const [visibleIdeologies, setVisibleIdeologies] = useState<Set<Ideology>>(
-    new Set(['liberal', 'conservative', 'libertarian', 'authoritarian', 'centrist', 'socialist', 'green'])
-  );
-  const [searchQuery, setSearchQuery] = useState('');
-  const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const { countryCodes, hiddenIdeologies, searchQuery, partySlug, updateUrlState } = useCompassUrlState();
+  const [hiddenFamilies, setHiddenFamilies] = useState<Set<PartyFamilyFilter>>(new Set());
+  const [showUncertainty, setShowUncertainty] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showIdeologyRegions, setShowIdeologyRegions] = useState(false);
+  const [showFamilyHulls, setShowFamilyHulls] = useState(false);
+  const [classificationScheme, setClassificationScheme] = useState<ClassificationScheme>('rules');
+  const [isPickingComparison, setIsPickingComparison] = useState(false);
+  const [comparedSlugs, setComparedSlugs] = useState<string[]>([]);
+  const { schemes } = useIdeologies();
 
   // Fetch countries
   const { data: countries = [], isLoading: isLoadingCountries } = useQuery({
     queryKey: ['countries'],
     queryFn: fetchCountries,
   });
+  const countriesWithParties = useMemo(() => countries.filter(country => country.partyCount > 0), [countries]);
+  const selectedCountries = useMemo(
+    () => countryCodes
+      .map(code => countries.find(country => country.code === code))
+      .filter((country): country is Country => country !== undefined),
+    [countryCodes, countries]
+  );
 
   // Fetch parties for selected countries
   const { data: parties = [], isLoading: isLoadingParties } = useQuery({
-    queryKey: ['parties', selectedCountries.map(c => c.code).join(',')],
-    queryFn: async () => {
-      if (selectedCountries.length === 0) return [];
-      const allParties = await Promise.all(
-        selectedCountries.map(country => fetchParties(country.code))
-      );
-      return allParties.flat();
-    },
-    enabled: selectedCountries.length > 0,
+    queryKey: ['parties', countryCodes.join(',')],
+    queryFn: () => fetchParties(countryCodes),
+    enabled: countryCodes.length > 0,
   });
 
+  // Re-label parties with the chosen scheme; parties the scheme can't
+  // classify (no external label, or a quadrant no ideology names) are left out
+  const classifiedParties = useMemo(
+    () => parties.flatMap(party => {
+      const ideology = party.classifications[classificationScheme];
+      return ideology ? [{ ...party, ideology }] : [];
+    }),
+    [parties, classificationScheme]
+  );
+
   // Filter parties based on visible ideologies and search query
   const filteredParties = useMemo(() => {
-    return parties.filter(party => {
-      const matchesIdeology = visibleIdeologies.has(party.ideology);
+    return classifiedParties.filter(party => {
+      const matchesIdeology = !hiddenIdeologies.has(party.ideology);
+      const matchesFamily = !hiddenFamilies.has(party.partyFamily ?? NO_PARTY_FAMILY);
       const matchesSearch = searchQuery === '' || 
         party.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         party.shortName.toLowerCase().includes(searchQuery.toLowerCase());
       
-      return matchesIdeology && matchesSearch;
+      return matchesIdeology && matchesFamily && matchesSearch;
     });
-  }, [parties, visibleIdeologies, searchQuery]);
+  }, [classifiedParties, hiddenIdeologies, hiddenFamilies, searchQuery]);
+
+  // The party named in the URL, as classified by the current scheme
+  const selectedParty = useMemo(
+    () => (partySlug
+      ? classifiedParties.find(party => party.slug === partySlug) ?? parties.find(party => party.slug === partySlug) ?? null
+      : null),
+    [partySlug, classifiedParties, parties]
+  );
+
+  // Fetch position history for the displayed parties when the timeline is on
+  const partyIds = useMemo(() => parties.map(party => party.id), [parties]);
+  const { data: histories } = useQuery({
+    queryKey: ['partyHistory', partyIds.join(',')],
+    queryFn: () => fetchPartyHistories(partyIds),
+    enabled: showHistory && partyIds.length > 0,
+  });
 
   // Count parties by ideology
   const partyCounts = useMemo(() => {
     const counts: Partial<Record<Ideology, number>> = {};
-    parties.forEach(party => {
+    classifiedParties.forEach(party => {
       counts[party.ideology] = (counts[party.ideology] || 0) + 1;
     });
     return counts;
-  }, [parties]);
+  }, [classifiedParties]);
+
+  const familyCounts = useMemo(() => {
+    const counts: Partial<Record<PartyFamilyFilter, number>> = {};
+    classifiedParties.forEach(party => {
+      const family = party.partyFamily ?? NO_PARTY_FAMILY;
+      counts[family] = (counts[family] || 0) + 1;
+    });
+    return counts;
+  }, [classifiedParties]);
 
   const handleCountrySelect = (countries: Country[]) => {
-    setSelectedCountries(countries);
-    setSelectedParty(null);
-    setIsDrawerOpen(false);
+    updateUrlState({ countryCodes: countries.map(country => country.code), partySlug: null });
   };
 
+  // Picked parties that are still loaded, in the order they were picked
+  const comparedParties = useMemo(
+    () => comparedSlugs
+      .map(slug => parties.find(party => party.slug === slug))
+      .filter((party): party is PoliticalParty => party !== undefined),
+    [comparedSlugs, parties]
+  );
+
   const handlePartyClick = (party: PoliticalParty) => {
-    setSelectedParty(party);
-    setIsDrawerOpen(true);
+    if (!isPickingComparison) {
+      updateUrlState({ partySlug: party.slug });
+      return;
+    }
+
+    if (comparedSlugs.includes(party.slug)) {
+      setComparedSlugs(comparedSlugs.filter(slug => slug !== party.slug));
+    } else if (comparedParties.length >= MAX_COMPARED_PARTIES) {
+      toast.info(`You can compare up to ${MAX_COMPARED_PARTIES} parties at once.`);
+    } else {
+      setComparedSlugs([...comparedParties.map(compared => compared.slug), party.slug]);
+    }
+  };
+
+  const handlePickingComparisonChange = (checked: boolean) => {
+    setIsPickingComparison(checked);
+    if (!checked) {
+      setComparedSlugs([]);
+    }
   };
 
   const handleToggleIdeology = (ideology: Ideology) => {
-    setVisibleIdeologies(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(ideology)) {
-        newSet.delete(ideology);
+    const next = new Set(hiddenIdeologies);
+    if (next.has(ideology)) {
+      next.delete(ideology);
+    } else {
+      next.add(ideology);
+    }
+    updateUrlState({ hiddenIdeologies: next });
+  };
+
+  const handleToggleFamily = (family: PartyFamilyFilter) => {
+    setHiddenFamilies(prev => {
+      const next = new Set(prev);
+      if (next.has(family)) {
+        next.delete(family);
       } else {
-        newSet.add(ideology);
+        next.add(family);
       }
-      return newSet;
+      return next;
     });
   };
 
@@ -99,18 +183,63 @@ const Index = () => {
           <div className="flex flex-col lg:flex-row gap-6 items-start">
             <div className="flex-1">
               <CountrySelector
-                countries={countries}
+                countries={countriesWithParties}
                 selectedCountries={selectedCountries}
                 onCountrySelect={handleCountrySelect}
                 isLoading={isLoadingCountries}
               />
             </div>
+            <Button variant="outline" className="h-14 rounded-xl" asChild>
+              <Link to={`/quiz?${new URLSearchParams(countryCodes.map(code => ['country', code]))}`}>
+                <ClipboardList className="h-4 w-4 mr-2" />
+                Take the quiz
+              </Link>
+            </Button>
+            {countryCodes.length > 0 && (
+              <div className="flex items-center gap-3 h-14">
+                <Switch
+                  id="show-uncertainty"
+                  checked={showUncertainty}
+                  onCheckedChange={setShowUncertainty}
+                />
+                <Label htmlFor="show-uncertainty" className="text-sm text-muted-foreground cursor-pointer">
+                  Show placement uncertainty
+                </Label>
+                <Switch
+                  id="show-history"
+                  checked={showHistory}
+                  onCheckedChange={setShowHistory}
+                  className="ml-3"
+                />
+                <Label htmlFor="show-history" className="text-sm text-muted-foreground cursor-pointer">
+                  Show position history
+                </Label>
+                <Switch
+                  id="show-family-hulls"
+                  checked={showFamilyHulls}
+                  onCheckedChange={setShowFamilyHulls}
+                  className="ml-3"
+                />
+                <Label htmlFor="show-family-hulls" className="text-sm text-muted-foreground cursor-pointer">
+                  Group by party family
+                </Label>
+                <Switch
+                  id="compare-parties"
+                  checked={isPickingComparison}
+                  onCheckedChange={handlePickingComparisonChange}
+                  className="ml-3"
+                />
+                <Label htmlFor="compare-parties" className="text-sm text-muted-foreground cursor-pointer">
+                  Compare parties
+                </Label>
+              </div>
+            )}
           </div>
         </motion.div>
 
         {/* Main Content */}
         <div className="min-h-[600px]">
-          {selectedCountries.length === 0 ? (
+          {countryCodes.length === 0 ? (
             <motion.div
               initial={{ opacity: 0, scale: 0.95 }}
               animate={{ opacity: 1, scale: 1 }}
@@ -152,16 +281,30 @@ const Index = () => {
               </p>
             </motion.div>
           ) : (
-            <PoliticalCompass
-              parties={filteredParties}
-              onPartyClick={handlePartyClick}
-              selectedParty={selectedParty}
-            />
+            <>
+              {isPickingComparison && (
+                <ComparisonBar
+                  parties={comparedParties}
+                  onRemove={party => setComparedSlugs(comparedSlugs.filter(slug => slug !== party.slug))}
+                  onClear={() => setComparedSlugs([])}
+                />
+              )}
+              <PoliticalCompass
+                parties={filteredParties}
+                onPartyClick={handlePartyClick}
+                selectedParty={selectedParty}
+                comparedParties={isPickingComparison ? comparedParties : undefined}
+                showUncertainty={showUncertainty}
+                histories={showHistory ? histories : undefined}
+                ideologyRegions={showIdeologyRegions && classificationScheme === 'rules' ? schemes.ruleSet : null}
+                showFamilyHulls={showFamilyHulls}
+              />
+            </>
           )}
         </div>
 
         {/* Political Ideologies Section - Bottom of Page */}
-        {selectedCountries.length > 0 && (
+        {countryCodes.length > 0 && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -169,11 +312,20 @@ const Index = () => {
             className="mt-12"
           >
             <IdeologyLegend
-              visibleIdeologies={visibleIdeologies}
+              hiddenIdeologies={hiddenIdeologies}
               onToggleIdeology={handleToggleIdeology}
+              onSetHiddenIdeologies={(hidden) => updateUrlState({ hiddenIdeologies: hidden })}
               searchQuery={searchQuery}
-              onSearchChange={setSearchQuery}
+              onSearchChange={(query) => updateUrlState({ searchQuery: query })}
               partyCounts={partyCounts}
+              showRegions={showIdeologyRegions}
+              onShowRegionsChange={setShowIdeologyRegions}
+              scheme={classificationScheme}
+              onSchemeChange={setClassificationScheme}
+              unclassifiedCount={parties.length - classifiedParties.length}
+              hiddenFamilies={hiddenFamilies}
+              onToggleFamily={handleToggleFamily}
+              familyCounts={familyCounts}
             />
           </motion.div>
         )}
@@ -182,11 +334,8 @@ const Index = () => {
       {/* Party Detail Drawer */}
       <PartyDetailDrawer
         party={selectedParty}
-        isOpen={isDrawerOpen}
-        onClose={() => {
-          setIsDrawerOpen(false);
-          setSelectedParty(null);
-        }}
+        isOpen={selectedParty !== null}
+        onClose={() => updateUrlState({ partySlug: null })}
       />
     </div>
   );
@@ -0,0 +1,77 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { AppHeader } from '@/components/AppHeader';
+import { PartyDetails } from '@/components/PartyDetails';
+import { PolicyAnalysisList } from '@/components/PolicyAnalysisList';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useDocumentTitle } from '@/hooks/use-document-title';
+import { fetchParties } from '@/data/databaseService';
+import { normalizePartySlug, parsePartySlug } from '@/lib/partySlugs';
+
+const Party = () => {
+  const { id = '' } = useParams();
+  const slug = parsePartySlug(id);
+
+  // Parties are served per country; the slug says which one to load
+  const { data: parties = [], isLoading } = useQuery({
+    queryKey: ['parties', slug?.countryCode ?? ''],
+    queryFn: () => fetchParties(slug!.countryCode),
+    enabled: slug !== null,
+  });
+  const party = parties.find((entry) => entry.slug === normalizePartySlug(id)) ?? null;
+
+  useDocumentTitle(party ? `${party.name}${party.country ? ` (${party.country.name})` : ''}` : null);
+
+  const backLink = party?.country
+    ? { to: `/country/${party.country.code.toLowerCase()}`, label: `Back to ${party.country.name}` }
+    : { to: '/', label: 'Back to compass' };
+
+  return (
+    <div className="min-h-screen bg-gradient-bg">
+      <AppHeader />
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-foreground">{party?.name ?? id}</h2>
+          <Button variant="ghost" asChild>
+            <Link to={backLink.to}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {backLink.label}
+            </Link>
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !party ? (
+          <Card className="p-6">
+            <p className="text-center text-muted-foreground">No party with the id "{id}".</p>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)] items-start">
+            <Card className="p-6">
+              <PartyDetails party={party} />
+            </Card>
+
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold">Platform Analysis</h3>
+                <p className="text-muted-foreground">
+                  AI-powered analysis of political platform and policy positions
+                </p>
+              </div>
+              <PolicyAnalysisList party={party} />
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Party;
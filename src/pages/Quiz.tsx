@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, RotateCcw } from 'lucide-react';
+import { AppHeader } from '@/components/AppHeader';
+import { CountrySelector } from '@/components/CountrySelector';
+import { PoliticalCompass } from '@/components/PoliticalCompass';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useCompassUrlState } from '@/hooks/use-compass-url-state';
+import { useDocumentTitle } from '@/hooks/use-document-title';
+import { fetchCountries, fetchParties, fetchQuizQuestions } from '@/data/databaseService';
+import { QUIZ_ANSWERS, rankPartyMatches, scoreQuiz } from '@/lib/quizScoring';
+import { Country, PoliticalParty, QuizAnswer } from '@/types/political';
+
+const TOP_MATCHES = 5;
+
+function formatScore(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+const Quiz = () => {
+  const navigate = useNavigate();
+  const { countryCodes, updateUrlState } = useCompassUrlState();
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+
+  useDocumentTitle('Voting Advice Quiz');
+
+  const { data: countries = [], isLoading: isLoadingCountries } = useQuery({
+    queryKey: ['countries'],
+    queryFn: fetchCountries,
+  });
+  const countriesWithParties = useMemo(() => countries.filter(country => country.partyCount > 0), [countries]);
+  const selectedCountries = useMemo(
+    () => countryCodes
+      .map(code => countries.find(country => country.code === code))
+      .filter((country): country is Country => country !== undefined),
+    [countries, countryCodes]
+  );
+
+  const { data: questions = [], isLoading: isLoadingQuestions } = useQuery({
+    queryKey: ['quizQuestions', countryCodes.join(',')],
+    queryFn: () => fetchQuizQuestions(countryCodes),
+    enabled: countryCodes.length > 0,
+  });
+
+  const { data: parties = [] } = useQuery({
+    queryKey: ['parties', countryCodes.join(',')],
+    queryFn: () => fetchParties(countryCodes),
+    enabled: countryCodes.length > 0,
+  });
+
+  const answeredCount = questions.filter(question => answers[question.id] !== undefined).length;
+  const userPosition = useMemo(() => scoreQuiz(questions, answers), [questions, answers]);
+  const matches = useMemo(
+    () => (userPosition ? rankPartyMatches(userPosition, parties).slice(0, TOP_MATCHES) : []),
+    [userPosition, parties]
+  );
+
+  // Clicking the selected answer again clears it, which skips the question
+  const handleAnswer = (questionId: string, value: string) => {
+    setAnswers(current => {
+      const next = { ...current };
+      if (value === '') {
+        delete next[questionId];
+      } else {
+        next[questionId] = Number(value) as QuizAnswer;
+      }
+      return next;
+    });
+  };
+
+  const handlePartyClick = (party: PoliticalParty) => {
+    navigate(`/party/${party.slug}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-bg">
+      <AppHeader />
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">Voting Advice Quiz</h2>
+            <p className="text-muted-foreground">
+              Say how much you agree with each statement to see where you sit on the compass and which parties are closest to you.
+            </p>
+          </div>
+          <Button variant="ghost" asChild>
+            <Link to={`/?${new URLSearchParams(countryCodes.map(code => ['country', code]))}`}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to compass
+            </Link>
+          </Button>
+        </div>
+
+        <CountrySelector
+          countries={countriesWithParties}
+          selectedCountries={selectedCountries}
+          onCountrySelect={selected => updateUrlState({ countryCodes: selected.map(country => country.code) })}
+          isLoading={isLoadingCountries}
+        />
+
+        {countryCodes.length === 0 ? (
+          <Card className="p-6">
+            <p className="text-center text-muted-foreground">
+              Select the countries whose parties you want to be matched with.
+            </p>
+          </Card>
+        ) : isLoadingQuestions ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : questions.length === 0 ? (
+          <Card className="p-6">
+            <p className="text-center text-muted-foreground">No quiz questions have been set up yet.</p>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)] items-start">
+            {/* Questions */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-4">
+                <Progress value={(answeredCount / questions.length) * 100} className="flex-1" />
+                <span className="text-sm text-muted-foreground tabular-nums shrink-0">
+                  {answeredCount} of {questions.length} answered
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => setAnswers({})} disabled={answeredCount === 0}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Reset
+                </Button>
+              </div>
+
+              {questions.map((question, index) => {
+                const country = question.country ? countries.find(entry => entry.code === question.country) : undefined;
+                return (
+                  <Card key={question.id} className="p-5">
+                    <div className="flex items-start gap-3 mb-4">
+                      <span className="text-sm font-semibold text-muted-foreground tabular-nums">{index + 1}.</span>
+                      <p className="font-medium flex-1">{question.statement}</p>
+                      {country && (
+                        <Badge variant="outline" className="shrink-0">{country.flag} {country.name}</Badge>
+                      )}
+                    </div>
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      size="sm"
+                      className="flex-wrap justify-start"
+                      value={answers[question.id] !== undefined ? String(answers[question.id]) : ''}
+                      onValueChange={value => handleAnswer(question.id, value)}
+                    >
+                      {QUIZ_ANSWERS.map(answer => (
+                        <ToggleGroupItem key={answer.value} value={String(answer.value)}>
+                          {answer.label}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </Card>
+                );
+              })}
+            </div>
+
+            {/* Results */}
+            <div className="space-y-4 lg:sticky lg:top-24">
+              <h3 className="text-lg font-semibold">Your Results</h3>
+              <PoliticalCompass
+                parties={parties}
+                onPartyClick={handlePartyClick}
+                userPosition={userPosition}
+              />
+
+              {userPosition === null ? (
+                <Card className="p-6">
+                  <p className="text-center text-muted-foreground">Answer a statement to see your position.</p>
+                </Card>
+              ) : (
+                <Card className="p-6 space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Your position: economic {formatScore(userPosition.econFreedom)}, personal {formatScore(userPosition.personalFreedom)}
+                  </p>
+                  {matches.map(match => (
+                    <div key={match.party.slug} className="space-y-1.5">
+                      <div className="flex items-center justify-between gap-3 text-sm">
+                        <Link to={`/party/${match.party.slug}`} className="font-medium hover:underline truncate">
+                          {match.party.country?.flag} {match.party.name}
+                        </Link>
+                        <span className="tabular-nums font-semibold shrink-0">{match.matchPercent}%</span>
+                      </div>
+                      <Progress value={match.matchPercent} className="h-2" />
+                    </div>
+                  ))}
+                </Card>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Quiz;
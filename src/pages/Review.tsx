@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { AppHeader } from '@/components/AppHeader';
+import { PolicyReviewForm } from '@/components/PolicyReviewForm';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAdminToken } from '@/hooks/use-admin-token';
+import { fetchCountries, fetchParties, fetchReviewQueue, submitPolicyReview } from '@/data/databaseService';
+import { PolicyReviewInput, ReviewStatus, ReviewablePolicy } from '@/types/political';
+
+// Reviewer name is kept for the browser session only
+const REVIEWER_STORAGE_KEY = 'policy-reviewer';
+const ALL_STATUSES = 'all';
+
+const STATUS_BADGE_STYLES: Record<ReviewStatus, string> = {
+  pending: 'bg-muted text-muted-foreground border-border',
+  approved: 'bg-green-500 text-white border-green-500',
+  edited: 'bg-blue-500 text-white border-blue-500',
+  rejected: 'bg-red-500 text-white border-red-500'
+};
+
+function formatScore(value: number | null): string {
+  return value === null ? '–' : value.toFixed(1);
+}
+
+const Review = () => {
+  const queryClient = useQueryClient();
+  const [token, setToken] = useAdminToken();
+  const [reviewer, setReviewer] = useState(() => sessionStorage.getItem(REVIEWER_STORAGE_KEY) ?? '');
+  const [countryCode, setCountryCode] = useState<string>('');
+  const [partyId, setPartyId] = useState<string>('');
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | typeof ALL_STATUSES>('pending');
+  const [editingPolicy, setEditingPolicy] = useState<ReviewablePolicy | null>(null);
+
+  const { data: countries = [] } = useQuery({
+    queryKey: ['countries'],
+    queryFn: fetchCountries,
+  });
+
+  const { data: parties = [] } = useQuery({
+    queryKey: ['parties', countryCode],
+    queryFn: () => fetchParties(countryCode),
+    enabled: countryCode !== '',
+  });
+
+  const status = statusFilter === ALL_STATUSES ? null : statusFilter;
+  const { data: policies = [], isLoading, error } = useQuery({
+    queryKey: ['reviewQueue', partyId, status, token],
+    queryFn: () => fetchReviewQueue(partyId, status, token),
+    enabled: partyId !== '' && token !== '',
+    retry: false,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: (review: PolicyReviewInput) => submitPolicyReview(review, token),
+    onSuccess: (_, review) => {
+      if (review.reviewer) {
+        setReviewer(review.reviewer);
+        sessionStorage.setItem(REVIEWER_STORAGE_KEY, review.reviewer);
+      }
+      toast.success(review.status === 'pending' ? 'Review cleared' : `Policy marked as ${review.status}`);
+      setEditingPolicy(null);
+      queryClient.invalidateQueries({ queryKey: ['reviewQueue', partyId] });
+      queryClient.invalidateQueries({ queryKey: ['partyPolicies'] });
+    },
+    onError: (mutationError: Error) => {
+      toast.error(`Could not save review: ${mutationError.message}`);
+    },
+  });
+
+  const handleCountryChange = (code: string) => {
+    setCountryCode(code);
+    setPartyId('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-bg">
+      <AppHeader />
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">Policy Review</h2>
+            <p className="text-muted-foreground">
+              Approve, correct or reject the model's policy classifications before they are published.
+            </p>
+          </div>
+          <Button variant="ghost" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to compass
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="p-6">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="review-token">Reviewer token</Label>
+              <Input
+                id="review-token"
+                type="password"
+                value={token}
+                onChange={(event) => setToken(event.target.value)}
+                placeholder="REVIEW_API_TOKEN"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="review-country">Country</Label>
+              <Select value={countryCode} onValueChange={handleCountryChange}>
+                <SelectTrigger id="review-country">
+                  <SelectValue placeholder="Select a country" />
+                </SelectTrigger>
+                <SelectContent>
+                  {countries.filter((country) => country.partyCount > 0).map((country) => (
+                    <SelectItem key={country.code} value={country.code}>
+                      {country.flag} {country.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="review-party">Party</Label>
+              <Select value={partyId} onValueChange={setPartyId} disabled={parties.length === 0}>
+                <SelectTrigger id="review-party">
+                  <SelectValue placeholder="Select a party" />
+                </SelectTrigger>
+                <SelectContent>
+                  {parties.map((party) => (
+                    <SelectItem key={party.slug} value={party.id}>{party.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="review-status">Status</Label>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ReviewStatus | typeof ALL_STATUSES)}>
+                <SelectTrigger id="review-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STATUSES}>All</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="edited">Edited</SelectItem>
+                  <SelectItem value="rejected">Rejected</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="p-0 overflow-hidden">
+          {token === '' || partyId === '' ? (
+            <p className="p-6 text-center text-muted-foreground">
+              Enter your reviewer token and choose a party to load its policies.
+            </p>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : error ? (
+            <p className="p-6 text-center text-destructive">{(error as Error).message}</p>
+          ) : policies.length === 0 ? (
+            <p className="p-6 text-center text-muted-foreground">No policies match this filter.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Impact</TableHead>
+                  <TableHead className="text-right">Economic</TableHead>
+                  <TableHead className="text-right">Personal</TableHead>
+                  <TableHead>Categories</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policies.map((policy) => (
+                  <TableRow key={policy.id}>
+                    <TableCell className="max-w-md">
+                      <p className="font-medium">{policy.shortName}</p>
+                      <p className="text-xs text-muted-foreground line-clamp-2">{policy.policyText}</p>
+                    </TableCell>
+                    <TableCell>{policy.impact}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatScore(policy.econFreedom)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{formatScore(policy.personalFreedom)}</TableCell>
+                    <TableCell className="text-xs">{policy.categories.join(', ')}</TableCell>
+                    <TableCell>
+                      <Badge className={`text-xs ${STATUS_BADGE_STYLES[policy.reviewStatus]}`}>
+                        {policy.reviewStatus}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => setEditingPolicy(policy)}>
+                        Review
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </main>
+
+      <Dialog open={editingPolicy !== null} onOpenChange={(open) => !open && setEditingPolicy(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {editingPolicy && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{editingPolicy.shortName}</DialogTitle>
+                <DialogDescription>{editingPolicy.policyText}</DialogDescription>
+              </DialogHeader>
+              <PolicyReviewForm
+                key={editingPolicy.id}
+                policy={editingPolicy}
+                defaultReviewer={reviewer}
+                isSubmitting={reviewMutation.isPending}
+                onSubmit={(review) => reviewMutation.mutate(review)}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Review;
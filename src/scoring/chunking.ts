@@ -0,0 +1,64 @@
+import type { ManifestoChunk } from './types.js';
+
+export interface ChunkingOptions {
+  maxChars?: number;
+}
+
+const DEFAULT_MAX_CHARS = 4000;
+
+function splitOversizedParagraph(paragraph: string, maxChars: number): string[] {
+  const sentences = paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) ?? [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    // A single sentence longer than the limit is hard-split
+    for (let start = 0; start < sentence.length; start += maxChars) {
+      const slice = sentence.slice(start, start + maxChars);
+      if (current.length + slice.length > maxChars) {
+        pieces.push(current.trim());
+        current = '';
+      }
+      current += slice;
+    }
+  }
+
+  if (current.trim()) {
+    pieces.push(current.trim());
+  }
+
+  return pieces;
+}
+
+/**
+ * Splits manifesto text into chunks of at most `maxChars`, keeping paragraphs
+ * together where possible and falling back to sentence boundaries.
+ */
+export function chunkManifesto(text: string, { maxChars = DEFAULT_MAX_CHARS }: ChunkingOptions = {}): ManifestoChunk[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+    .filter((paragraph) => paragraph.length > 0)
+    .flatMap((paragraph) => (paragraph.length > maxChars ? splitOversizedParagraph(paragraph, maxChars) : [paragraph]));
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks.map((chunkText, index) => ({ index, text: chunkText }));
+}
@@ -0,0 +1,242 @@
+import type { LLMPolicyResponse, PolicyImpact } from '../types/political';
+import { parsePolicyImpact } from '../lib/partyPositions.js';
+
+// Compares the policies scored in one analysis run against a hand-labelled
+// golden set. Golden policies are matched to llm_responses rows of the same
+// party by policy text (falling back to short name), ignoring case,
+// punctuation and whitespace, so a golden set stays valid across runs.
+
+export interface GoldenPolicy {
+  line: number;
+  partyId: string;
+  policyText: string;
+  shortName: string | null;
+  econFreedom: number;
+  personalFreedom: number;
+  impact: PolicyImpact;
+  categories: string[];
+}
+
+export type GoldenPolicyResult =
+  | { ok: true; value: GoldenPolicy }
+  | { ok: false; errors: string[] };
+
+export const IMPACT_LEVELS: PolicyImpact[] = ['high', 'medium', 'low'];
+
+export interface AxisMetrics {
+  meanAbsoluteError: number | null;
+  signAgreement: number | null;
+}
+
+export interface EvaluationMatch {
+  line: number;
+  partyId: string;
+  policyText: string;
+  responseId: number;
+  expected: { econFreedom: number; personalFreedom: number; impact: PolicyImpact; categories: string[] };
+  actual: { econFreedom: number | null; personalFreedom: number | null; impact: PolicyImpact | null; categories: string[] };
+}
+
+export interface EvaluationReport {
+  runId: string;
+  generatedAt: string;
+  goldenCount: number;
+  matchedCount: number;
+  unmatched: Array<{ line: number; partyId: string; policyText: string }>;
+  econFreedom: AxisMetrics;
+  personalFreedom: AxisMetrics;
+  meanAbsoluteError: number | null;
+  // confusion[expected][predicted]; 'missing' counts responses without an impact
+  impactConfusion: Record<PolicyImpact, Record<PolicyImpact | 'missing', number>>;
+  impactAccuracy: number | null;
+  categoryExactAccuracy: number | null;
+  categoryJaccard: number | null;
+  matches: EvaluationMatch[];
+}
+
+function readText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+function readCategories(value: unknown): string[] | null {
+  if (Array.isArray(value)) {
+    return value.every((entry) => typeof entry === 'string') ? value : null;
+  }
+
+  const text = readText(value);
+  if (text === null) return [];
+
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) && parsed.every((entry) => typeof entry === 'string') ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validates one hand-labelled record (JSONL or CSV row). Axis scores and
+ * impact are required; categories default to an empty list.
+ */
+export function parseGoldenPolicy(record: Record<string, unknown>, line: number): GoldenPolicyResult {
+  const errors: string[] = [];
+
+  const partyId = readText(record.party_id);
+  if (!partyId) errors.push('party_id is required');
+
+  const policyText = readText(record.policy_text);
+  const shortName = readText(record.short_name);
+  if (!policyText && !shortName) errors.push('policy_text or short_name is required');
+
+  const axis = (field: string): number => {
+    const text = readText(record[field]);
+    const value = text === null ? Number.NaN : Number(text);
+    if (text === null) {
+      errors.push(`${field} is required`);
+    } else if (!Number.isFinite(value) || value < -10 || value > 10) {
+      errors.push(`${field} must be a number between -10 and 10, got ${JSON.stringify(record[field])}`);
+    }
+    return value;
+  };
+  const econFreedom = axis('econ_freedom');
+  const personalFreedom = axis('personal_freedom');
+
+  const impact = parsePolicyImpact(readText(record.impact));
+  if (impact === null) errors.push(`impact must be one of high, medium, low, got ${JSON.stringify(record.impact)}`);
+
+  const categories = readCategories(record.categories ?? record.category);
+  if (categories === null) errors.push('categories must be a JSON array of strings');
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      line,
+      partyId: partyId!,
+      policyText: policyText ?? shortName!,
+      shortName,
+      econFreedom,
+      personalFreedom,
+      impact: impact!,
+      categories: categories!
+    }
+  };
+}
+
+function normalizeText(text: string | null): string {
+  return (text ?? '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function ratio(count: number, total: number): number | null {
+  return total === 0 ? null : count / total;
+}
+
+function axisMetrics(pairs: Array<[number, number | null]>): AxisMetrics {
+  const scored = pairs.filter((pair): pair is [number, number] => pair[1] !== null);
+  return {
+    meanAbsoluteError: mean(scored.map(([expected, actual]) => Math.abs(expected - actual))),
+    signAgreement: ratio(scored.filter(([expected, actual]) => Math.sign(expected) === Math.sign(actual)).length, scored.length)
+  };
+}
+
+function responseCategories(response: LLMPolicyResponse): string[] {
+  return readCategories(response.category) ?? [];
+}
+
+function categorySet(categories: string[]): Set<string> {
+  return new Set(categories.map((category) => category.trim().toLowerCase()));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const union = new Set([...a, ...b]);
+  if (union.size === 0) return 1;
+  return [...a].filter((entry) => b.has(entry)).length / union.size;
+}
+
+/**
+ * Matches golden policies to the run's responses and computes the metrics.
+ * Each response is matched at most once.
+ */
+export function evaluateRun(runId: string, golden: GoldenPolicy[], responses: LLMPolicyResponse[]): EvaluationReport {
+  const candidates = responses.filter((response) => response.error === null);
+  const used = new Set<number>();
+
+  const findResponse = (policy: GoldenPolicy): LLMPolicyResponse | undefined => {
+    const sameParty = candidates.filter((response) => response.party_id === policy.partyId && !used.has(response.id));
+    const text = normalizeText(policy.policyText);
+    const shortName = normalizeText(policy.shortName ?? policy.policyText);
+    return sameParty.find((response) => normalizeText(response.policy_text) === text)
+      ?? sameParty.find((response) => normalizeText(response.short_name) === shortName);
+  };
+
+  const matches: EvaluationMatch[] = [];
+  const unmatched: EvaluationReport['unmatched'] = [];
+
+  for (const policy of golden) {
+    const response = findResponse(policy);
+    if (!response) {
+      unmatched.push({ line: policy.line, partyId: policy.partyId, policyText: policy.policyText });
+      continue;
+    }
+
+    used.add(response.id);
+    matches.push({
+      line: policy.line,
+      partyId: policy.partyId,
+      policyText: policy.policyText,
+      responseId: response.id,
+      expected: {
+        econFreedom: policy.econFreedom,
+        personalFreedom: policy.personalFreedom,
+        impact: policy.impact,
+        categories: policy.categories
+      },
+      actual: {
+        econFreedom: response.econ_freedom,
+        personalFreedom: response.personal_freedom,
+        impact: response.impact,
+        categories: responseCategories(response)
+      }
+    });
+  }
+
+  const impactConfusion = Object.fromEntries(IMPACT_LEVELS.map((expected) => [
+    expected,
+    { high: 0, medium: 0, low: 0, missing: 0 }
+  ])) as EvaluationReport['impactConfusion'];
+  for (const match of matches) {
+    impactConfusion[match.expected.impact][match.actual.impact ?? 'missing'] += 1;
+  }
+
+  const econPairs = matches.map((match): [number, number | null] => [match.expected.econFreedom, match.actual.econFreedom]);
+  const personalPairs = matches.map((match): [number, number | null] => [match.expected.personalFreedom, match.actual.personalFreedom]);
+  const categorySets = matches.map((match) => [categorySet(match.expected.categories), categorySet(match.actual.categories)] as const);
+
+  return {
+    runId,
+    generatedAt: new Date().toISOString(),
+    goldenCount: golden.length,
+    matchedCount: matches.length,
+    unmatched,
+    econFreedom: axisMetrics(econPairs),
+    personalFreedom: axisMetrics(personalPairs),
+    meanAbsoluteError: axisMetrics([...econPairs, ...personalPairs]).meanAbsoluteError,
+    impactConfusion,
+    impactAccuracy: ratio(matches.filter((match) => match.expected.impact === match.actual.impact).length, matches.length),
+    categoryExactAccuracy: ratio(
+      categorySets.filter(([expected, actual]) => expected.size === actual.size && [...expected].every((entry) => actual.has(entry))).length,
+      matches.length
+    ),
+    categoryJaccard: mean(categorySets.map(([expected, actual]) => jaccard(expected, actual))),
+    matches
+  };
+}
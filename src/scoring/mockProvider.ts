@@ -0,0 +1,109 @@
+import type { PolicyImpact } from '../types/political';
+import type { ChunkScoringInput, PolicyScoringProvider, ScoredPolicy } from './types.js';
+
+// Deterministic, offline stand-in for an LLM: picks out sentences that read
+// like commitments and scores them with a small keyword lexicon. Good enough
+// to exercise the whole pipeline without network access; the scores mean
+// nothing politically.
+
+const COMMITMENT_PATTERN = /\b(will|shall|must|should|propose|plan|introduce|support|ensure|abolish|reduce|increase|cut|ban|guarantee)\b/i;
+const MIN_POLICY_WORDS = 5;
+const SHORT_NAME_WORDS = 6;
+const KEYWORD_STEP = 3;
+
+const ECONOMIC_KEYWORDS: Array<[RegExp, number]> = [
+  [/\b(lower|cut|reduce)\w* tax/i, 1],
+  [/\bderegulat|\bprivati[sz]/i, 1],
+  [/\bfree market|\bentrepreneur|\bcompetition\b/i, 1],
+  [/\bbalanced budget|\bspending cuts?\b/i, 1],
+  [/\bminimum wage|\bwelfare\b|\bredistribut/i, -1],
+  [/\bnationali[sz]|\bpublic ownership|\bsocial housing/i, -1],
+  [/\btax(es)? on (the )?(rich|wealth)|\bwealth tax|\bprogressive tax/i, -1],
+  [/\bsubsid|\bfree (healthcare|education|public transport)/i, -1],
+];
+
+const PERSONAL_KEYWORDS: Array<[RegExp, number]> = [
+  [/\bprivacy\b|\bcivil libert|\bfreedom of (speech|expression)/i, 1],
+  [/\bdecriminali[sz]|\bsame-sex|\bequal marriage/i, 1],
+  [/\btransparen|\bdigital rights|\bopen data/i, 1],
+  [/\bpolice\b|\bsurveillance|\blaw and order/i, -1],
+  [/\bborder|\bdeport|\billegal migra/i, -1],
+  [/\bban\b|\bcensor|\btraditional (family|values)/i, -1],
+];
+
+function clampAxis(value: number): number {
+  return Math.max(-10, Math.min(10, value));
+}
+
+function lexiconScore(sentence: string, keywords: Array<[RegExp, number]>): number {
+  return clampAxis(keywords.reduce((score, [pattern, direction]) => score + (pattern.test(sentence) ? direction * KEYWORD_STEP : 0), 0));
+}
+
+function describeEconomic(score: number): string | null {
+  if (score <= -6) return 'far left';
+  if (score < 0) return 'moderately left';
+  if (score >= 6) return 'far right';
+  if (score > 0) return 'moderately right';
+  return null;
+}
+
+function describePersonal(score: number): string | null {
+  if (score <= -6) return 'very authoritarian';
+  if (score < 0) return 'moderately authoritarian';
+  if (score >= 6) return 'very libertarian';
+  if (score > 0) return 'moderately libertarian';
+  return null;
+}
+
+function impactFor(econFreedom: number, personalFreedom: number): PolicyImpact {
+  const magnitude = Math.abs(econFreedom) + Math.abs(personalFreedom);
+  if (magnitude >= 6) return 'high';
+  if (magnitude >= KEYWORD_STEP) return 'medium';
+  return 'low';
+}
+
+export function extractCommitments(text: string): string[] {
+  const sentences = text.split(/\n+/).flatMap((line) => line.match(/[^.!?]+[.!?]*/g) ?? []);
+  return sentences
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.split(/\s+/).length >= MIN_POLICY_WORDS && COMMITMENT_PATTERN.test(sentence));
+}
+
+export interface MockProviderOptions {
+  // Chunk indexes that throw, to exercise error handling and retries
+  failingChunks?: Iterable<number>;
+}
+
+export function createMockScoringProvider({ failingChunks = [] }: MockProviderOptions = {}): PolicyScoringProvider {
+  const failing = new Set(failingChunks);
+
+  return {
+    name: 'mock',
+    model: 'mock-lexicon',
+    promptVersion: 'mock-v1',
+    async scoreChunk({ chunk }: ChunkScoringInput): Promise<ScoredPolicy[]> {
+      if (failing.has(chunk.index)) {
+        throw new Error(`Mock provider configured to fail chunk ${chunk.index}`);
+      }
+
+      return extractCommitments(chunk.text).map((sentence) => {
+        const econFreedom = lexiconScore(sentence, ECONOMIC_KEYWORDS);
+        const personalFreedom = lexiconScore(sentence, PERSONAL_KEYWORDS);
+        const categories = [describeEconomic(econFreedom), describePersonal(personalFreedom)]
+          .filter((category): category is string => category !== null);
+
+        return {
+          policyText: sentence,
+          shortName: sentence.split(/\s+/).slice(0, SHORT_NAME_WORDS).join(' ').replace(/[,;:.!?]+$/, ''),
+          impact: impactFor(econFreedom, personalFreedom),
+          impactExplanation: null,
+          categories: categories.length > 0 ? categories : ['centrist'],
+          explanation: 'Scored by the offline mock provider from keyword matches.',
+          econFreedom,
+          personalFreedom,
+          weight: 1
+        };
+      });
+    }
+  };
+}
@@ -0,0 +1,162 @@
+import type { AnalysisRun, LLMPolicyResponse } from '../types/political';
+import { validateLLMResponse } from '../data/llmResponseValidation.js';
+import { chunkManifesto } from './chunking.js';
+import type { ManifestoChunk, PolicyScoringProvider, ScoredPolicy } from './types.js';
+
+export interface ScoringPipelineOptions {
+  partyId: string;
+  country: string | null;
+  text: string;
+  provider: PolicyScoringProvider;
+  firstId: number; // id assigned to the first llm_responses row
+  maxChunkChars?: number;
+  timestamp?: Date;
+  runDescription?: string;
+}
+
+export interface ScoringPipelineResult {
+  run: AnalysisRun;
+  responses: LLMPolicyResponse[];
+  chunkCount: number;
+  failedChunks: number[];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export interface ChunkRowContext {
+  partyId: string;
+  country: string | null;
+  timestamp: string;
+  runId: string;
+  chunk: ManifestoChunk;
+}
+
+/** Readable, sortable id such as `run-20260114-093012-k3f9q2`. */
+export function analysisRunId(createdAt: Date, prefix = 'run'): string {
+  const stamp = createdAt.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${prefix}-${stamp}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createAnalysisRun(provider: PolicyScoringProvider, createdAt: Date, description: string | null = null): AnalysisRun {
+  return {
+    id: analysisRunId(createdAt),
+    provider: provider.name,
+    model: provider.model,
+    promptVersion: provider.promptVersion,
+    createdAt: createdAt.toISOString(),
+    description
+  };
+}
+
+export function toErrorResponse(id: number, { partyId, country, timestamp, runId, chunk }: ChunkRowContext, error: string): LLMPolicyResponse {
+  return {
+    id,
+    party_id: partyId,
+    country,
+    timestamp,
+    chunk_index: chunk.index,
+    policy_id: null,
+    policy_text: null,
+    short_name: null,
+    impact: null,
+    impact_explanation: null,
+    category: null,
+    explanation: null,
+    econ_freedom: null,
+    personal_freedom: null,
+    weight: null,
+    error,
+    run_id: runId,
+    chunk_text: chunk.text
+  };
+}
+
+function toPolicyRecord(id: number, context: ChunkRowContext, policyId: number, policy: ScoredPolicy): Record<string, unknown> {
+  return {
+    id,
+    party_id: context.partyId,
+    country: context.country,
+    timestamp: context.timestamp,
+    chunk_index: context.chunk.index,
+    policy_id: policyId,
+    policy_text: policy.policyText,
+    short_name: policy.shortName,
+    impact: policy.impact,
+    impact_explanation: policy.impactExplanation,
+    category: policy.categories,
+    explanation: policy.explanation,
+    econ_freedom: policy.econFreedom,
+    personal_freedom: policy.personalFreedom,
+    weight: policy.weight,
+    error: null,
+    run_id: context.runId
+  };
+}
+
+/**
+ * Scores one chunk and turns the provider output into llm_responses rows
+ * starting at `firstId`. Provider failures, invalid provider output and
+ * chunks without any policies become a single error row for the chunk so it
+ * can be inspected and retried.
+ */
+export async function scoreChunk(
+  provider: PolicyScoringProvider,
+  context: ChunkRowContext,
+  firstId: number
+): Promise<LLMPolicyResponse[]> {
+  let policies: ScoredPolicy[];
+  try {
+    policies = await provider.scoreChunk({ partyId: context.partyId, country: context.country, chunk: context.chunk });
+  } catch (error) {
+    return [toErrorResponse(firstId, context, `${provider.name}: ${errorMessage(error)}`)];
+  }
+
+  if (policies.length === 0) {
+    return [toErrorResponse(firstId, context, `${provider.name} returned no policies`)];
+  }
+
+  const responses: LLMPolicyResponse[] = [];
+  for (const [offset, policy] of policies.entries()) {
+    const result = validateLLMResponse(toPolicyRecord(firstId + offset, context, offset + 1, policy));
+    if (result.ok === false) {
+      return [toErrorResponse(firstId, context, `${provider.name} returned an invalid policy: ${result.errors.join('; ')}`)];
+    }
+    responses.push(result.value);
+  }
+
+  return responses;
+}
+
+/**
+ * Splits a manifesto into chunks, scores every chunk with the provider and
+ * returns a new analysis run with its llm_responses rows, all sharing the
+ * run's timestamp.
+ */
+export async function runScoringPipeline({
+  partyId,
+  country,
+  text,
+  provider,
+  firstId,
+  maxChunkChars,
+  timestamp = new Date(),
+  runDescription
+}: ScoringPipelineOptions): Promise<ScoringPipelineResult> {
+  const run = createAnalysisRun(provider, timestamp, runDescription ?? null);
+  const chunks = chunkManifesto(text, { maxChars: maxChunkChars });
+  const responses: LLMPolicyResponse[] = [];
+  const failedChunks: number[] = [];
+
+  for (const chunk of chunks) {
+    const context = { partyId, country, timestamp: run.createdAt, runId: run.id, chunk };
+    const chunkResponses = await scoreChunk(provider, context, firstId + responses.length);
+    if (chunkResponses.some((response) => response.error !== null)) {
+      failedChunks.push(chunk.index);
+    }
+    responses.push(...chunkResponses);
+  }
+
+  return { run, responses, chunkCount: chunks.length, failedChunks };
+}
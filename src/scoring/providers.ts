@@ -0,0 +1,40 @@
+import { createMockScoringProvider } from './mockProvider.js';
+import type { PolicyScoringProvider } from './types.js';
+
+// Register real LLM providers here; each factory reads its own configuration
+// (API keys, model names) from the environment.
+const PROVIDER_FACTORIES: Record<string, () => PolicyScoringProvider> = {};
+
+// The mock provider scores from a keyword lexicon, so its scores mean nothing
+// politically. It is only offered in development or when asked for explicitly.
+function isMockProviderEnabled(): boolean {
+  return process.env.NODE_ENV === 'development' || process.env.ENABLE_MOCK_SCORING === 'true';
+}
+
+function providerFactories(): Record<string, () => PolicyScoringProvider> {
+  return isMockProviderEnabled()
+    ? { ...PROVIDER_FACTORIES, mock: () => createMockScoringProvider() }
+    : PROVIDER_FACTORIES;
+}
+
+export function availableScoringProviders(): string[] {
+  return Object.keys(providerFactories());
+}
+
+/** SCORING_PROVIDER when it names an available provider, otherwise null. */
+export function defaultScoringProvider(): string | null {
+  const name = process.env.SCORING_PROVIDER;
+  return name && availableScoringProviders().includes(name) ? name : null;
+}
+
+export function createScoringProvider(name: string): PolicyScoringProvider {
+  const factory = providerFactories()[name];
+  if (!factory) {
+    const available = availableScoringProviders();
+    throw new Error(`Unknown scoring provider "${name}". ${available.length > 0
+      ? `Available providers: ${available.join(', ')}`
+      : 'No providers are available; the mock provider needs ENABLE_MOCK_SCORING=true'}`);
+  }
+
+  return factory();
+}
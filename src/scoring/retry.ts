@@ -0,0 +1,85 @@
+import type { AnalysisRun, ChunkRetryResult } from '../types/political';
+import type { PartyRepository } from '../data/partyRepository.js';
+import { createAnalysisRun, scoreChunk } from './pipeline.js';
+import type { PolicyScoringProvider } from './types.js';
+
+export interface RetryFailedChunksOptions {
+  provider: PolicyScoringProvider;
+  responseIds: number[]; // llm_responses ids of failed chunks
+  dryRun?: boolean;
+  timestamp?: Date;
+}
+
+export interface RetryFailedChunksResult {
+  run: AnalysisRun | null; // null when every chunk was skipped and no run was recorded
+  results: ChunkRetryResult[];
+}
+
+/**
+ * Scores failed chunks again with the provider, recording the attempt as a
+ * new analysis run. A chunk that now yields policies has its error row
+ * replaced by them; one that fails again or yields no policies keeps its id
+ * with the new error, so the chunk is never lost. Rows that aren't errors or
+ * have no stored chunk text are skipped.
+ */
+export async function retryFailedChunks(
+  repository: PartyRepository,
+  { provider, responseIds, dryRun = false, timestamp = new Date() }: RetryFailedChunksOptions
+): Promise<RetryFailedChunksResult> {
+  const run = createAnalysisRun(provider, timestamp, 'Retry of failed chunks');
+  const results: ChunkRetryResult[] = [];
+  let runCreated = false;
+
+  for (const responseId of responseIds) {
+    const failed = await repository.fetchLLMResponse(responseId);
+    if (!failed || failed.error === null || !failed.chunk_text) {
+      results.push({
+        responseId,
+        partyId: failed?.party_id ?? '',
+        chunkIndex: failed?.chunk_index ?? 0,
+        status: 'skipped',
+        policyCount: 0,
+        error: !failed ? 'row does not exist' : failed.error === null ? 'row is not a failed chunk' : 'chunk text was not stored with the error'
+      });
+      continue;
+    }
+
+    const context = {
+      partyId: failed.party_id,
+      country: failed.country,
+      timestamp: run.createdAt,
+      runId: run.id,
+      chunk: { index: failed.chunk_index, text: failed.chunk_text }
+    };
+    // scoreChunk turns an empty result into an error row, so a chunk is only
+    // replaced when there are policies to replace it with
+    const responses = await scoreChunk(provider, context, await repository.nextLLMResponseId());
+    const stillFailing = responses.find((response) => response.error !== null);
+
+    if (!dryRun) {
+      if (!runCreated) {
+        await repository.createAnalysisRun(run);
+        runCreated = true;
+      }
+
+      if (stillFailing) {
+        await repository.upsertLLMResponses([{ ...stillFailing, id: failed.id }]);
+      } else {
+        await repository.upsertLLMResponses(responses);
+        await repository.deleteLLMResponse(failed.id);
+      }
+    }
+
+    results.push({
+      responseId,
+      partyId: failed.party_id,
+      chunkIndex: failed.chunk_index,
+      status: stillFailing ? 'failed' : 'succeeded',
+      policyCount: stillFailing ? 0 : responses.length,
+      error: stillFailing?.error ?? null
+    });
+  }
+
+  const retried = results.some((result) => result.status !== 'skipped');
+  return { run: retried ? run : null, results };
+}
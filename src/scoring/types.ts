@@ -0,0 +1,36 @@
+import type { PolicyImpact } from '../types/political';
+
+export interface ManifestoChunk {
+  index: number;
+  text: string;
+}
+
+export interface ChunkScoringInput {
+  partyId: string;
+  country: string | null;
+  chunk: ManifestoChunk;
+}
+
+export interface ScoredPolicy {
+  policyText: string;
+  shortName: string;
+  impact: PolicyImpact;
+  impactExplanation: string | null;
+  categories: string[];
+  explanation: string | null;
+  econFreedom: number; // -10 to +10
+  personalFreedom: number; // -10 to +10
+  weight: number;
+}
+
+/**
+ * Extracts and scores the policies in one manifesto chunk. Implementations
+ * wrap a concrete LLM (or the offline mock) and throw when a chunk cannot be
+ * scored; the pipeline records the error on that chunk and carries on.
+ */
+export interface PolicyScoringProvider {
+  name: string;
+  model: string;
+  promptVersion: string; // bump whenever the extraction/scoring prompt changes
+  scoreChunk(input: ChunkScoringInput): Promise<ScoredPolicy[]>;
+}
@@ -1,7 +1,18 @@
-export interface Country {
-  code: string;
+export type ElectoralSystem = 'proportional' | 'majoritarian' | 'mixed';
+
+// Country metadata attached to each party
+export interface PartyCountry {
+  code: string; // ISO 3166 alpha-2, referenced by parties.country
+  alpha3: string;
   name: string;
-  flag?: string;
+  flag: string; // derived from the alpha-2 code
+  region: string | null;
+  euMember: boolean;
+  electoralSystem: ElectoralSystem | null;
+}
+
+export interface Country extends PartyCountry {
+  partyCount: number;
 }
 
 // API Response types
@@ -13,13 +24,50 @@ export interface ApiPartyResponse {
   updated_at: string;
 }
 
+export type PositionSource = 'stored' | 'derived';
+
+export interface CompassPosition {
+  econFreedom: number; // -10 to +10
+  personalFreedom: number; // -10 to +10
+}
+
+export interface AxisDispersion {
+  standardDeviation: number; // weighted spread of the policy scores
+  confidenceInterval: [number, number] | null; // bootstrap interval of the weighted mean
+}
+
+export interface ConfidenceEllipse {
+  radiusX: number; // compass units along the major axis
+  radiusY: number; // compass units along the minor axis
+  angle: number; // degrees counterclockwise from the economic axis
+}
+
+export interface PositionUncertainty {
+  sampleSize: number;
+  confidenceLevel: number;
+  econFreedom: AxisDispersion | null;
+  personalFreedom: AxisDispersion | null;
+  ellipse: ConfidenceEllipse | null; // null with fewer than two scored policies
+}
+
 export interface PoliticalParty {
-  id: string;
+  id: string; // parties.id, used by the API
+  slug: string; // country + id, e.g. "cz-ods"; identifies the party in the UI and URLs
   name: string;
   shortName: string;
   econFreedom: number; // -10 to +10
   personalFreedom: number; // -10 to +10
-  ideology: Ideology;
+  positionSource: PositionSource | null; // which position econFreedom/personalFreedom come from, null when neither exists
+  storedPosition: CompassPosition | null; // parties.econ_freedom / personal_freedom, null unless both are set
+  derivedPosition: CompassPosition | null; // aggregated from llm_responses
+  policyCount: number; // scored llm_responses rows behind derivedPosition
+  uncertainty: PositionUncertainty | null; // dispersion of derivedPosition
+  failedChunkCount: number; // manifesto chunks whose analysis failed
+  dataQualityIssues: DataQualityIssueKind[]; // problems with the data behind the placement
+  ideology: Ideology; // the 'rules' classification
+  classifications: Record<ClassificationScheme, Ideology | null>; // null when the scheme has no answer, e.g. no external label
+  partyFamily: PartyFamily | null; // European Parliament group, null when not mapped
+  country: PartyCountry | null;
   description: string;
   website?: string;
   logo?: string;
@@ -27,14 +75,88 @@ export interface PoliticalParty {
   support?: number; // percentage
 }
 
-export type Ideology = 
-  | 'liberal'
-  | 'conservative' 
-  | 'libertarian'
-  | 'authoritarian'
-  | 'centrist'
-  | 'socialist'
-  | 'green';
+// Id of a row in the `ideologies` table. Migration 7 seeds liberal,
+// conservative, libertarian, authoritarian, centrist, socialist and green;
+// further ideologies are added as rows.
+export type Ideology = string;
+
+export type AxisRange = [number | null, number | null]; // exclusive bounds, null = unbounded
+
+// An area of the compass: per-axis `bounds` (no bounds at all covers the whole
+// compass) or a `polygon` of [econFreedom, personalFreedom] vertices
+export type IdeologyRegion =
+  | { type: 'bounds'; econ?: AxisRange; personal?: AxisRange }
+  | { type: 'polygon'; points: Array<[number, number]> };
+
+// Left/right is economic freedom, libertarian/authoritarian personal freedom
+export type CompassQuadrant = 'centre' | 'left-libertarian' | 'left-authoritarian' | 'right-libertarian' | 'right-authoritarian';
+
+// A row of `ideology_rules`: the rule scheme checks every ideology's rules by
+// `order` and the first region containing a party wins
+export interface IdeologyRegionRule {
+  order: number;
+  region: IdeologyRegion;
+}
+
+export interface IdeologyDefinition {
+  id: Ideology;
+  label: string;
+  color: string; // any CSS colour
+  description: string | null;
+  sortOrder: number;
+  rules: IdeologyRegionRule[]; // empty when the rule scheme never assigns it
+  quadrant: CompassQuadrant | null; // the quadrant it names in the quadrant scheme
+  centroid: CompassPosition | null; // its centre in the nearest-centroid scheme
+}
+
+// A voting-advice statement from the `quiz_questions` table. Directions run
+// from -1 to 1 and say how far agreeing moves the user along each axis.
+export interface QuizQuestion {
+  id: string;
+  country: string | null; // alpha-2 code, null for questions asked in every country
+  statement: string;
+  econDirection: number;
+  personalDirection: number;
+  sortOrder: number;
+}
+
+// From strongly disagree (-2) to strongly agree (2)
+export type QuizAnswer = -2 | -1 | 0 | 1 | 2;
+
+export interface PartyMatch {
+  party: PoliticalParty;
+  distance: number; // from the user's position, in compass units
+  matchPercent: number; // 100 at the same position, 0 at opposite corners
+}
+
+// European party families, by European Parliament group
+export type PartyFamily =
+  | 'epp'
+  | 'sd'
+  | 'renew'
+  | 'greens_efa'
+  | 'ecr'
+  | 'id'
+  | 'left'
+  | 'ni'; // non-inscrits
+
+// Ways of assigning an ideology to a party
+export type ClassificationScheme =
+  | 'rules' // first matching region in `ideology_rules`
+  | 'quadrant' // compass quadrant, with a centre box around the origin
+  | 'centroid' // nearest ideology centroid
+  | 'external'; // label stored on the party by an external source
+
+export interface PartyPositionSnapshot {
+  date: string; // YYYY-MM-DD of the analysis
+  position: CompassPosition; // from every policy analysed up to this date
+  policyCount: number; // policies behind position
+}
+
+export interface PartyPositionHistory {
+  partyId: string;
+  snapshots: PartyPositionSnapshot[]; // oldest first
+}
 
 export interface CompassPoint {
   party: PoliticalParty;
@@ -47,27 +169,29 @@ export interface CountryData {
   parties: PoliticalParty[];
 }
 
-export const IDEOLOGY_LABELS: Record<Ideology, string> = {
-  liberal: 'Liberal',
-  conservative: 'Conservative',
-  libertarian: 'Libertarian',
-  authoritarian: 'Authoritarian',
-  centrist: 'Centrist',
-  socialist: 'Socialist',
-  green: 'Green'
+export const CLASSIFICATION_SCHEME_LABELS: Record<ClassificationScheme, string> = {
+  rules: 'Rule regions',
+  quadrant: 'Quadrant',
+  centroid: 'Nearest centroid',
+  external: 'External labels'
 };
 
-export const IDEOLOGY_COLORS: Record<Ideology, string> = {
-  liberal: 'hsl(var(--ideology-liberal))',
-  conservative: 'hsl(var(--ideology-conservative))',
-  libertarian: 'hsl(var(--ideology-libertarian))',
-  authoritarian: 'hsl(var(--ideology-authoritarian))',
-  centrist: 'hsl(var(--ideology-centrist))',
-  socialist: 'hsl(var(--ideology-socialist))',
-  green: 'hsl(var(--ideology-green))'
-};
+// Used for parties whose ideology has no row in `ideologies`
+export const UNKNOWN_IDEOLOGY_COLOR = 'hsl(var(--muted-foreground))';
 
 // LLM Response types
+export type PolicyImpact = 'high' | 'medium' | 'low';
+
+// One execution of the scoring pipeline (or one ingested batch)
+export interface AnalysisRun {
+  id: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  createdAt: string;
+  description: string | null;
+}
+
 export interface LLMPolicyResponse {
   id: number;
   party_id: string;
@@ -77,7 +201,7 @@ export interface LLMPolicyResponse {
   policy_id: number | null;
   policy_text: string | null;
   short_name: string | null;
-  impact: 'high' | 'medium' | 'low' | null;
+  impact: PolicyImpact | null;
   impact_explanation: string | null;
   category: string | null; // JSON array string like '["moderately right"]'
   explanation: string | null;
@@ -85,14 +209,114 @@ export interface LLMPolicyResponse {
   personal_freedom: number | null;
   weight: number | null;
   error: string | null;
+  run_id: string | null; // analysis_runs.id, null for rows loaded before runs were tracked
+  chunk_text: string | null; // source text of a failed chunk, kept so it can be retried
+}
+
+// Human review state of one llm_responses row. Rows without a review are
+// pending; edited rows carry reviewer-corrected scores and categories.
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'edited';
+
+export interface PolicyReview {
+  status: ReviewStatus;
+  reviewer: string | null;
+  note: string | null;
+  reviewedAt: string | null;
 }
 
 export interface PolicyAnalysis {
+  id: number; // llm_responses.id
   policyText: string;
   shortName: string;
-  impact: 'high' | 'medium' | 'low';
+  impact: PolicyImpact;
   categories: string[];
   explanation: string;
   econFreedom: number | null;
   personalFreedom: number | null;
-}
\ No newline at end of file
+  run: AnalysisRun | null;
+  reviewStatus: ReviewStatus;
+}
+
+// A policy as shown to reviewers: the published values (with any edits
+// applied) alongside what the model originally produced.
+export interface ReviewablePolicy extends PolicyAnalysis {
+  partyId: string;
+  review: PolicyReview;
+  original: {
+    impact: PolicyImpact | null;
+    categories: string[];
+    econFreedom: number | null;
+    personalFreedom: number | null;
+  };
+}
+
+export interface PolicyReviewInput {
+  responseId: number;
+  status: ReviewStatus;
+  reviewer: string | null;
+  note: string | null;
+  // Only used when status is 'edited'
+  econFreedom?: number | null;
+  personalFreedom?: number | null;
+  impact?: PolicyImpact | null;
+  categories?: string[] | null;
+}
+
+// A manifesto chunk whose analysis failed (an llm_responses row with error set)
+export interface AnalysisError {
+  id: number; // llm_responses.id
+  partyId: string;
+  country: string | null;
+  chunkIndex: number;
+  error: string;
+  timestamp: string | null;
+  run: AnalysisRun | null;
+  retryable: boolean; // false when the chunk text wasn't stored with the error
+}
+
+export interface AnalysisErrorsResponse {
+  errors: AnalysisError[];
+  providers: string[]; // scoring providers failed chunks can be retried with
+  defaultProvider: string | null; // null when SCORING_PROVIDER isn't set to an available provider
+}
+
+export interface ChunkRetryResult {
+  responseId: number;
+  partyId: string;
+  chunkIndex: number;
+  status: 'succeeded' | 'failed' | 'skipped';
+  policyCount: number;
+  error: string | null;
+}
+
+export type DataQualityIssueKind =
+  | 'missing_scores'
+  | 'missing_policies'
+  | 'high_error_ratio'
+  | 'out_of_range'
+  | 'invalid_category';
+
+export interface DataQualityIssue {
+  kind: DataQualityIssueKind;
+  message: string;
+  responseIds?: number[]; // offending llm_responses rows, where applicable
+}
+
+export interface PartyDataQuality {
+  partyId: string;
+  partyName: string;
+  country: string;
+  responseCount: number;
+  errorCount: number;
+  policyCount: number;
+  issues: DataQualityIssue[];
+}
+
+export interface DataQualityReport {
+  generatedAt: string;
+  maxErrorRatio: number;
+  partyCount: number;
+  partiesWithIssues: number;
+  issueCounts: Record<DataQualityIssueKind, number>;
+  parties: PartyDataQuality[]; // only parties with at least one issue
+}
@@ -14,6 +14,8 @@ export default defineConfig(({ mode }) => ({
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
+  // The client's SQLite fallback follows the same publication rule as the API
+  envPrefix: ["VITE_", "PUBLISH_REVIEWED_POLICIES_ONLY"],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),